@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {ConfidentialUSDT} from "./ConfidentialUSDT.sol";
+
+/// @title CUSDTRedemption
+/// @notice Burns cUSDT for ETH from an owner-funded treasury at an owner-set price.
+/// @dev Redeeming takes two steps, like a SecretRate withdrawal: the encrypted amount is moved into escrow here and
+/// made publicly decryptable, then anyone finalizes it with the relayer's decryption proof, which burns the escrow
+/// and pays the holder. The price is fixed when the request is made. A request that is not finalized, e.g. because
+/// the treasury is short, can be cancelled by its holder after `REDEMPTION_TIMEOUT` to get the cUSDT back. Needs
+/// cUSDT's `BURNER_ROLE`, and holders make this contract their cUSDT operator to request. Deployed behind an
+/// ERC-1967 proxy and upgraded by the owner (UUPS).
+contract CUSDTRedemption is
+    Initializable,
+    ZamaEthereumConfig,
+    UUPSUpgradeable,
+    ReentrancyGuardUpgradeable,
+    OwnableUpgradeable
+{
+    struct Redemption {
+        address holder;
+        uint256 price;
+        uint256 requestedAt;
+    }
+
+    /// @notice Time after which a redemption that was not finalized can be cancelled by its holder.
+    uint256 public constant REDEMPTION_TIMEOUT = 1 days;
+    uint256 private constant CUSDT_UNIT = 1e6; // cUSDT has 6 decimals
+
+    /// @custom:storage-location erc7201:secretrate.storage.CUSDTRedemption
+    struct CUSDTRedemptionStorage {
+        ConfidentialUSDT cusdt;
+        uint256 price;
+        mapping(bytes32 encryptedHandle => Redemption) redemptions;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("secretrate.storage.CUSDTRedemption")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CUSDT_REDEMPTION_STORAGE_LOCATION =
+        0x5b13c3f3e83498eaa6e39fbe89d43edf3b426b4564394e0f84f6c8151b68a100;
+
+    /// @notice Emitted when the owner changes the price.
+    /// @param previousPrice The price until now, in wei per whole cUSDT.
+    /// @param newPrice The price from now on, in wei per whole cUSDT.
+    event PriceUpdated(uint256 previousPrice, uint256 newPrice);
+
+    /// @notice Emitted when ETH is added to the treasury.
+    /// @param from The sender.
+    /// @param amount The wei added.
+    event TreasuryFunded(address indexed from, uint256 amount);
+
+    /// @notice Emitted when the owner takes ETH out of the treasury.
+    /// @param to The recipient.
+    /// @param amount The wei sent.
+    event TreasuryWithdrawn(address indexed to, uint256 amount);
+
+    /// @notice Emitted when cUSDT is escrowed for redemption.
+    /// @param holder The holder.
+    /// @param encryptedHandle The escrowed handle made publicly decryptable.
+    /// @param price The locked-in price, in wei per whole cUSDT.
+    event RedemptionRequested(address indexed holder, bytes32 encryptedHandle, uint256 price);
+
+    /// @notice Emitted when a redemption is burned and paid out.
+    /// @param holder The holder.
+    /// @param amount The cUSDT burned.
+    /// @param payout The wei paid.
+    event RedemptionFinalized(address indexed holder, uint64 amount, uint256 payout);
+
+    /// @notice Emitted when an expired redemption is cancelled and its escrow returned.
+    /// @param holder The holder.
+    /// @param encryptedHandle The escrowed handle.
+    event RedemptionCancelled(address indexed holder, bytes32 encryptedHandle);
+
+    /// @notice The handle is not a pending redemption.
+    error InvalidProof();
+    /// @notice The treasury cannot cover the payout.
+    /// @param available The treasury balance.
+    /// @param payout The wei owed.
+    error InsufficientReserves(uint256 available, uint256 payout);
+    /// @notice The caller has no redemption pending under this handle.
+    error NoRedemption();
+    /// @notice The redemption cannot be cancelled yet.
+    /// @param expiresAt When it can be.
+    error RedemptionNotExpired(uint256 expiresAt);
+
+    /// @notice Locks the implementation; proxies are set up through `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the proxy with the cUSDT token and its price; the caller becomes the owner.
+    /// @dev The FHEVM coprocessor config set by `ZamaEthereumConfig` lives in the implementation's storage, so it
+    /// is applied to the proxy here as well.
+    /// @param cusdtAddress The cUSDT token that is redeemed.
+    /// @param initialPrice Wei paid per whole cUSDT.
+    function initialize(address cusdtAddress, uint256 initialPrice) external initializer {
+        require(cusdtAddress != address(0), "cUSDT required");
+        __ReentrancyGuard_init();
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+
+        CUSDTRedemptionStorage storage $ = _getCUSDTRedemptionStorage();
+        $.cusdt = ConfidentialUSDT(cusdtAddress);
+        $.price = initialPrice;
+    }
+
+    /// @notice Adds the sent ETH to the treasury.
+    receive() external payable {
+        emit TreasuryFunded(msg.sender, msg.value);
+    }
+
+    /// @notice Sets the wei paid per whole cUSDT for requests made from now on.
+    /// @param newPrice The price, in wei per whole cUSDT.
+    function setPrice(uint256 newPrice) external onlyOwner {
+        CUSDTRedemptionStorage storage $ = _getCUSDTRedemptionStorage();
+        emit PriceUpdated($.price, newPrice);
+        $.price = newPrice;
+    }
+
+    /// @notice Takes ETH out of the treasury.
+    /// @param to The recipient.
+    /// @param amount The wei to send.
+    function withdrawTreasury(address to, uint256 amount) external onlyOwner nonReentrant {
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+
+        emit TreasuryWithdrawn(to, amount);
+    }
+
+    /// @notice Moves an encrypted amount of the caller's cUSDT into escrow and discloses only the escrowed amount.
+    /// @dev Nothing is moved when the amount exceeds the balance, and the request then pays nothing. The caller must
+    /// have made this contract their cUSDT operator with `setOperator`.
+    /// @param encryptedAmount The encrypted amount of cUSDT to redeem.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    function requestRedemption(externalEuint64 encryptedAmount, bytes calldata inputProof) external nonReentrant {
+        CUSDTRedemptionStorage storage $ = _getCUSDTRedemptionStorage();
+        euint64 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(requested, address($.cusdt));
+
+        // The transfer allows the escrowed handle to the holder and to this contract.
+        euint64 escrowed = $.cusdt.confidentialTransferFrom(msg.sender, address(this), requested);
+        FHE.makePubliclyDecryptable(escrowed);
+
+        bytes32 handle = FHE.toBytes32(escrowed);
+        $.redemptions[handle] = Redemption({holder: msg.sender, price: $.price, requestedAt: block.timestamp});
+
+        emit RedemptionRequested(msg.sender, handle, $.price);
+    }
+
+    /// @notice Burns the escrow of a redemption and pays it out, with the decryption proof of its amount produced by
+    /// the relayer.
+    /// @param escrowed The escrowed handle emitted by `requestRedemption`.
+    /// @param clearAmount The decrypted escrowed amount.
+    /// @param decryptionProof Proof returned by the relayer for the escrowed handle.
+    function finalizeRedemption(
+        euint64 escrowed,
+        uint64 clearAmount,
+        bytes calldata decryptionProof
+    ) external nonReentrant {
+        CUSDTRedemptionStorage storage $ = _getCUSDTRedemptionStorage();
+        bytes32 handle = FHE.toBytes32(escrowed);
+        Redemption memory pending = $.redemptions[handle];
+        if (pending.holder == address(0)) {
+            revert InvalidProof();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, abi.encode(clearAmount), decryptionProof);
+
+        uint256 payout = (uint256(clearAmount) * pending.price) / CUSDT_UNIT;
+        if (address(this).balance < payout) {
+            revert InsufficientReserves(address(this).balance, payout);
+        }
+        delete $.redemptions[handle];
+
+        FHE.allowTransient(escrowed, address($.cusdt));
+        $.cusdt.burnEncrypted(address(this), escrowed);
+
+        (bool sent, ) = payable(pending.holder).call{value: payout}("");
+        require(sent, "ETH transfer failed");
+
+        emit RedemptionFinalized(pending.holder, clearAmount, payout);
+    }
+
+    /// @notice Returns the escrowed cUSDT of a redemption that was not finalized within `REDEMPTION_TIMEOUT`.
+    /// @dev Only the holder can cancel.
+    /// @param escrowed The escrowed handle emitted by `requestRedemption`.
+    function cancelRedemption(euint64 escrowed) external nonReentrant {
+        CUSDTRedemptionStorage storage $ = _getCUSDTRedemptionStorage();
+        bytes32 handle = FHE.toBytes32(escrowed);
+        Redemption memory pending = $.redemptions[handle];
+        if (pending.holder != msg.sender) {
+            revert NoRedemption();
+        }
+        uint256 expiresAt = pending.requestedAt + REDEMPTION_TIMEOUT;
+        if (block.timestamp < expiresAt) {
+            revert RedemptionNotExpired(expiresAt);
+        }
+        delete $.redemptions[handle];
+
+        FHE.allowTransient(escrowed, address($.cusdt));
+        $.cusdt.confidentialTransfer(msg.sender, escrowed);
+
+        emit RedemptionCancelled(msg.sender, handle);
+    }
+
+    /// @notice Returns the cUSDT token that is redeemed.
+    /// @return The cUSDT token.
+    function cusdt() external view returns (ConfidentialUSDT) {
+        return _getCUSDTRedemptionStorage().cusdt;
+    }
+
+    /// @notice Returns the wei paid per whole cUSDT for new requests.
+    /// @return The price.
+    function price() external view returns (uint256) {
+        return _getCUSDTRedemptionStorage().price;
+    }
+
+    /// @notice Returns the holder, locked-in price and request time of a pending redemption, or the zero address.
+    /// @param encryptedHandle The escrowed handle.
+    /// @return holder The holder, or the zero address.
+    /// @return lockedPrice The price locked in by the request.
+    /// @return requestedAt When it was requested.
+    function redemption(
+        bytes32 encryptedHandle
+    ) external view returns (address holder, uint256 lockedPrice, uint256 requestedAt) {
+        Redemption storage pending = _getCUSDTRedemptionStorage().redemptions[encryptedHandle];
+        return (pending.holder, pending.price, pending.requestedAt);
+    }
+
+    /// @notice Only the owner can upgrade the module.
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /// @notice Returns the namespaced storage of the module.
+    /// @return $ The storage struct at `CUSDT_REDEMPTION_STORAGE_LOCATION`.
+    function _getCUSDTRedemptionStorage() private pure returns (CUSDTRedemptionStorage storage $) {
+        assembly {
+            $.slot := CUSDT_REDEMPTION_STORAGE_LOCATION
+        }
+    }
+}
@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+import {IERC7984Receiver} from "@openzeppelin/confidential-contracts/interfaces/IERC7984Receiver.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {ConfidentialUSDT} from "./ConfidentialUSDT.sol";
+
+/// @title ConfidentialShareVault
+/// @notice Holds cUSDT on behalf of its depositors and issues confidential scUSDT shares against it. SecretRate
+/// sweeps the yield of users who opt in here.
+/// @dev Shares are issued 1:1 against deposited cUSDT and redeemed 1:1, so share balances never leave the encrypted
+/// domain. The vault has no yield source of its own: shares hold their cUSDT, they do not grow. Deposits arrive
+/// through `confidentialTransferAndCall` on cUSDT; the call data may name the receiver of the shares. Deployed
+/// behind an ERC-1967 proxy and upgraded by the owner (UUPS), with the same storage rules as ConfidentialUSDT.
+contract ConfidentialShareVault is
+    Initializable,
+    ERC7984,
+    ZamaEthereumConfig,
+    IERC7984Receiver,
+    UUPSUpgradeable,
+    OwnableUpgradeable
+{
+    string private constant NAME = "SecretRate cUSDT Shares";
+    string private constant SYMBOL = "scUSDT";
+
+    /// @custom:storage-location erc7201:secretrate.storage.ConfidentialShareVault
+    struct ConfidentialShareVaultStorage {
+        ConfidentialUSDT asset;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("secretrate.storage.ConfidentialShareVault")) - 1))
+    //     & ~bytes32(uint256(0xff))
+    bytes32 private constant CONFIDENTIAL_SHARE_VAULT_STORAGE_LOCATION =
+        0x21afb9b35cf2312de0de7e478d1ba2a4d321e3e1b263e6814cc7d5864ab42f00;
+
+    /// @notice Emitted when cUSDT is deposited for shares.
+    /// @param from The account the cUSDT came from.
+    /// @param receiver The account issued the shares.
+    /// @param encryptedShares The shares issued.
+    event Deposited(address indexed from, address indexed receiver, euint64 encryptedShares);
+
+    /// @notice Emitted when shares are redeemed.
+    /// @param owner The account that redeemed.
+    /// @param encryptedAssets The cUSDT sent back.
+    event Redeemed(address indexed owner, euint64 encryptedAssets);
+
+    /// @notice Only cUSDT can be deposited.
+    /// @param token The token that called.
+    error UnsupportedAsset(address token);
+
+    /// @notice Locks the implementation; proxies are set up through `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() ERC7984(NAME, SYMBOL, "") {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the proxy with the cUSDT token it holds; the caller becomes the owner.
+    /// @dev The FHEVM coprocessor config set by `ZamaEthereumConfig` lives in the implementation's storage, so it
+    /// is applied to the proxy here as well.
+    /// @param cusdtAddress The cUSDT token.
+    function initialize(address cusdtAddress) external initializer {
+        require(cusdtAddress != address(0), "cUSDT required");
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+
+        _getConfidentialShareVaultStorage().asset = ConfidentialUSDT(cusdtAddress);
+    }
+
+    /// @inheritdoc IERC7984Receiver
+    /// @notice Issues shares for cUSDT transferred in with `confidentialTransferAndCall`.
+    /// @param from The account the cUSDT came from.
+    /// @param amount The transferred amount.
+    /// @param data Empty to issue the shares to `from`, or the ABI-encoded address to issue them to.
+    function onConfidentialTransferReceived(
+        address,
+        address from,
+        euint64 amount,
+        bytes calldata data
+    ) external returns (ebool) {
+        if (msg.sender != address(_getConfidentialShareVaultStorage().asset)) {
+            revert UnsupportedAsset(msg.sender);
+        }
+
+        address receiver = data.length == 0 ? from : abi.decode(data, (address));
+        euint64 shares = _mint(receiver, amount);
+        emit Deposited(from, receiver, shares);
+
+        ebool accepted = FHE.asEbool(true);
+        FHE.allowTransient(accepted, msg.sender);
+        return accepted;
+    }
+
+    /// @notice Redeems an encrypted amount of the caller's shares for cUSDT.
+    /// @dev Nothing is redeemed when the amount exceeds the caller's shares.
+    /// @param encryptedShares The encrypted amount of shares to redeem.
+    /// @param inputProof The input proof for `encryptedShares`.
+    /// @return The encrypted cUSDT sent back.
+    function redeem(externalEuint64 encryptedShares, bytes calldata inputProof) external returns (euint64) {
+        return _redeem(FHE.fromExternal(encryptedShares, inputProof));
+    }
+
+    /// @notice Redeems shares the caller is allowed to use, such as its full share balance.
+    /// @param shares The encrypted amount of shares to redeem.
+    /// @return The encrypted cUSDT sent back.
+    function redeem(euint64 shares) external returns (euint64) {
+        require(FHE.isAllowed(shares, msg.sender), ERC7984UnauthorizedUseOfEncryptedAmount(shares, msg.sender));
+        return _redeem(shares);
+    }
+
+    /// @notice Returns the cUSDT token backing the shares.
+    /// @return The cUSDT token.
+    function asset() external view returns (ConfidentialUSDT) {
+        return _getConfidentialShareVaultStorage().asset;
+    }
+
+    /// @inheritdoc ERC7984
+    function name() public pure override returns (string memory) {
+        return NAME;
+    }
+
+    /// @inheritdoc ERC7984
+    function symbol() public pure override returns (string memory) {
+        return SYMBOL;
+    }
+
+    /// @notice Burns up to `shares` of the caller's shares and sends them the cUSDT burned.
+    /// @param shares The encrypted amount of shares to redeem.
+    /// @return The encrypted cUSDT sent back.
+    function _redeem(euint64 shares) private returns (euint64) {
+        euint64 burned = _burn(msg.sender, shares);
+
+        ConfidentialUSDT cusdt = _getConfidentialShareVaultStorage().asset;
+        FHE.allowTransient(burned, address(cusdt));
+        euint64 assets = cusdt.confidentialTransfer(msg.sender, burned);
+
+        emit Redeemed(msg.sender, assets);
+        return assets;
+    }
+
+    /// @notice Only the owner can upgrade the vault.
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /// @notice Returns the namespaced storage of the vault.
+    /// @return $ The storage struct at `CONFIDENTIAL_SHARE_VAULT_STORAGE_LOCATION`.
+    function _getConfidentialShareVaultStorage() private pure returns (ConfidentialShareVaultStorage storage $) {
+        assembly {
+            $.slot := CONFIDENTIAL_SHARE_VAULT_STORAGE_LOCATION
+        }
+    }
+}
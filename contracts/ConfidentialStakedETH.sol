@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {SecretRate} from "./SecretRate.sol";
+
+/// @title ConfidentialStakedETH
+/// @notice Transferable, confidential receipt (csETH) for ETH staked in SecretRate. One share stands for one gwei of
+/// stake, so the encrypted total supply cannot overflow.
+/// @dev SecretRate keeps every balance equal to the holder's transferable stake, rounded down to whole shares, and
+/// is told about each transfer so the stake and the yield it earns move to the recipient. Deployed behind an
+/// ERC-1967 proxy and upgraded by the owner (UUPS), with the same storage rules as ConfidentialUSDT.
+contract ConfidentialStakedETH is Initializable, ERC7984, ZamaEthereumConfig, UUPSUpgradeable, OwnableUpgradeable {
+    /// @notice Wei of stake each share stands for.
+    uint64 public constant ASSETS_PER_SHARE = 1 gwei;
+
+    string private constant NAME = "SecretRate Staked ETH";
+    string private constant SYMBOL = "csETH";
+
+    /// @custom:storage-location erc7201:secretrate.storage.ConfidentialStakedETH
+    struct ConfidentialStakedETHStorage {
+        SecretRate vault;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("secretrate.storage.ConfidentialStakedETH")) - 1))
+    //     & ~bytes32(uint256(0xff))
+    bytes32 private constant CONFIDENTIAL_STAKED_ETH_STORAGE_LOCATION =
+        0x4b3f64d5a9d8294fa0410a853cdfbdaedeebc3e22c76b03f48a543839ceb8800;
+
+    /// @notice Only the vault can sync shares.
+    /// @param caller The caller.
+    error NotVault(address caller);
+
+    /// @notice Locks the implementation; proxies are set up through `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() ERC7984(NAME, SYMBOL, "") {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the proxy with the vault whose stakes it represents; the caller becomes the owner.
+    /// @dev The FHEVM coprocessor config set by `ZamaEthereumConfig` lives in the implementation's storage, so it
+    /// is applied to the proxy here as well.
+    /// @param vaultAddress The SecretRate vault.
+    function initialize(address vaultAddress) external initializer {
+        require(vaultAddress != address(0), "Vault required");
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+
+        _getConfidentialStakedETHStorage().vault = SecretRate(payable(vaultAddress));
+    }
+
+    /// @notice Mints or burns so that `holder` ends up with exactly `shares`.
+    /// @dev The vault must allow `shares` to this contract for the transaction.
+    /// @param holder The staker.
+    /// @param shares The encrypted share balance they should hold.
+    function syncShares(address holder, euint64 shares) external {
+        if (msg.sender != address(_getConfidentialStakedETHStorage().vault)) {
+            revert NotVault(msg.sender);
+        }
+
+        euint64 balance = confidentialBalanceOf(holder);
+        if (!FHE.isInitialized(balance)) {
+            _mint(holder, shares);
+            return;
+        }
+
+        ebool grows = FHE.ge(shares, balance);
+        _mint(holder, FHE.select(grows, FHE.sub(shares, balance), FHE.asEuint64(0)));
+        _burn(holder, FHE.select(grows, FHE.asEuint64(0), FHE.sub(balance, shares)));
+    }
+
+    /// @notice Returns the vault whose stakes the shares represent.
+    /// @return The SecretRate vault.
+    function vault() external view returns (SecretRate) {
+        return _getConfidentialStakedETHStorage().vault;
+    }
+
+    /// @notice Returns the number of shares a stake of `assets` wei is worth, rounded down.
+    /// @param assets The stake, in wei.
+    /// @return The shares.
+    function convertToShares(uint256 assets) external pure returns (uint256) {
+        return assets / ASSETS_PER_SHARE;
+    }
+
+    /// @notice Returns the stake, in wei, that `shares` stand for.
+    /// @param shares The shares.
+    /// @return The stake, in wei.
+    function convertToAssets(uint256 shares) external pure returns (uint256) {
+        return shares * ASSETS_PER_SHARE;
+    }
+
+    /// @inheritdoc ERC7984
+    function name() public pure override returns (string memory) {
+        return NAME;
+    }
+
+    /// @inheritdoc ERC7984
+    function symbol() public pure override returns (string memory) {
+        return SYMBOL;
+    }
+
+    /// @inheritdoc ERC7984
+    /// @dev Shares are denominated in gwei.
+    function decimals() public pure override returns (uint8) {
+        return 9;
+    }
+
+    /// @notice Lets the vault move the stake behind every transfer; it reverts the transfer when the stake is locked or
+    /// being withdrawn. Mints and burns come from the vault itself.
+    /// @param from The sender, or the zero address for a mint.
+    /// @param to The recipient, or the zero address for a burn.
+    /// @param amount The encrypted shares to move.
+    /// @return transferred The encrypted shares actually moved.
+    function _update(address from, address to, euint64 amount) internal override returns (euint64 transferred) {
+        transferred = super._update(from, to, amount);
+        if (from == address(0) || to == address(0)) {
+            return transferred;
+        }
+
+        SecretRate stakingVault = _getConfidentialStakedETHStorage().vault;
+        FHE.allowTransient(transferred, address(stakingVault));
+        stakingVault.onReceiptTransfer(from, to, transferred);
+    }
+
+    /// @notice Only the owner can upgrade the token.
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /// @notice Returns the namespaced storage of the token.
+    /// @return $ The storage struct at `CONFIDENTIAL_STAKED_ETH_STORAGE_LOCATION`.
+    function _getConfidentialStakedETHStorage() private pure returns (ConfidentialStakedETHStorage storage $) {
+        assembly {
+            $.slot := CONFIDENTIAL_STAKED_ETH_STORAGE_LOCATION
+        }
+    }
+}
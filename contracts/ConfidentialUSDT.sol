@@ -2,43 +2,304 @@
 pragma solidity ^0.8.27;
 
 import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {
+    AccessControlDefaultAdminRulesUpgradeable,
+    Initializable
+} from "@openzeppelin/contracts-upgradeable/access/extensions/AccessControlDefaultAdminRulesUpgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 
 /// @title ConfidentialUSDT
-/// @notice Confidential stablecoin used for paying staking yield. Minting is restricted to the staking contract.
-contract ConfidentialUSDT is ERC7984, ZamaEthereumConfig, Ownable {
-    address public minter;
+/// @notice Confidential stablecoin used for paying staking yield. Minting is restricted to `MINTER_ROLE` holders,
+/// each bounded by its own allowance, and all minting shares an admin-funded lifetime budget and a per-epoch cap.
+/// @dev The default admin is also reported as `owner()`, can decrypt the emission totals and upgrades the token
+/// (UUPS). `ERC7984` is not upgradeable-aware: its fields keep the proxy's first sequential slots and its
+/// constructor-set metadata is replaced by the constants below. Everything else is namespaced.
+contract ConfidentialUSDT is
+    Initializable,
+    ERC7984,
+    ZamaEthereumConfig,
+    UUPSUpgradeable,
+    AccessControlDefaultAdminRulesUpgradeable,
+    PausableUpgradeable
+{
+    /// @notice Role allowed to mint, each holder within its own allowance.
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    /// @notice Role allowed to pause and unpause the token.
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @notice Role allowed to burn its own or its operators' balances.
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
 
-    event MinterUpdated(address indexed newMinter);
+    /// @notice Length of an emission epoch, each minting at most `epochCap`.
+    uint256 public constant EPOCH_DURATION = 1 weeks;
 
-    error UnauthorizedMinter(address caller);
+    string private constant NAME = "cUSDT";
+    string private constant SYMBOL = "cUSDT";
 
-    constructor() ERC7984("cUSDT", "cUSDT", "") Ownable(msg.sender) {}
+    /// @custom:storage-location erc7201:secretrate.storage.ConfidentialUSDT
+    struct ConfidentialUSDTStorage {
+        uint64 lifetimeCap;
+        uint64 epochCap;
+        uint256 currentEpoch;
+        mapping(address minter => uint64 allowance) minterAllowance;
+        euint64 lifetimeMinted;
+        euint64 epochMinted;
+        mapping(address minter => euint64 minted) mintedSinceAllowance;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("secretrate.storage.ConfidentialUSDT")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CONFIDENTIAL_USDT_STORAGE_LOCATION =
+        0xbc7aa9adf99a2f5a3284a28c5c0207c151bd4672b1188555997add521f3d3f00;
+
+    /// @notice Emitted when the admin sets a minter's allowance.
+    /// @param minter The minter.
+    /// @param allowance What it may mint from now on.
+    event MinterAllowanceUpdated(address indexed minter, uint64 allowance);
+
+    /// @notice Emitted when the admin adds to the lifetime emission budget.
+    /// @param amount The amount added.
+    /// @param lifetimeCap The new lifetime budget.
+    event BudgetToppedUp(uint64 amount, uint64 lifetimeCap);
 
-    /// @notice Sets the staking contract that is allowed to mint tokens.
-    function setMinter(address newMinter) external onlyOwner {
-        minter = newMinter;
-        emit MinterUpdated(newMinter);
+    /// @notice Emitted when the admin changes the per-epoch emission cap.
+    /// @param newEpochCap The new cap.
+    event EpochCapUpdated(uint64 newEpochCap);
+
+    /// @notice Emitted by the first mint of an epoch.
+    /// @param epoch The epoch index, `block.timestamp / EPOCH_DURATION`.
+    /// @param epochCap The cap in force when it started.
+    event EmissionEpochStarted(uint256 indexed epoch, uint64 epochCap);
+
+    /// @notice Locks the implementation; proxies are set up through `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() ERC7984(NAME, SYMBOL, "") {
+        _disableInitializers();
     }
 
-    /// @notice Mints an encrypted amount using a cleartext input.
-    function mintFromPlain(address to, uint64 amount) external returns (euint64) {
-        if (msg.sender != minter) {
-            revert UnauthorizedMinter(msg.sender);
-        }
+    /// @notice Initializes the proxy; the caller becomes the default admin with a 1 day transfer delay.
+    /// @dev The FHEVM coprocessor config set by `ZamaEthereumConfig` lives in the implementation's storage, so it
+    /// is applied to the proxy here as well.
+    function initialize() external initializer {
+        __AccessControlDefaultAdminRules_init(1 days, msg.sender);
+        __Pausable_init();
+        __UUPSUpgradeable_init();
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+    }
+
+    /// @notice Sets how much `minter` may mint from now on, replacing whatever was left of its previous allowance.
+    /// @param minter The account holding `MINTER_ROLE`.
+    /// @param allowance The amount it may mint, in cUSDT base units.
+    function setMinterAllowance(address minter, uint64 allowance) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        ConfidentialUSDTStorage storage $ = _getConfidentialUSDTStorage();
+        $.minterAllowance[minter] = allowance;
+        $.mintedSinceAllowance[minter] = euint64.wrap(0);
+        emit MinterAllowanceUpdated(minter, allowance);
+    }
+
+    /// @notice Adds `amount` to the lifetime emission budget.
+    /// @param amount The amount to add, in cUSDT base units.
+    function topUpBudget(uint64 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        ConfidentialUSDTStorage storage $ = _getConfidentialUSDTStorage();
+        $.lifetimeCap += amount;
+        emit BudgetToppedUp(amount, $.lifetimeCap);
+    }
+
+    /// @notice Sets the per-epoch emission cap, effective immediately for the current epoch.
+    /// @param newEpochCap The maximum minted per epoch, in cUSDT base units.
+    function setEpochCap(uint64 newEpochCap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _getConfidentialUSDTStorage().epochCap = newEpochCap;
+        emit EpochCapUpdated(newEpochCap);
+    }
 
+    /// @notice Stops all transfers, mints and burns.
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /// @notice Resumes transfers, mints and burns.
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /// @notice Returns the total emission budget funded through `topUpBudget`.
+    /// @return The lifetime budget, in cUSDT base units.
+    function lifetimeCap() external view returns (uint64) {
+        return _getConfidentialUSDTStorage().lifetimeCap;
+    }
+
+    /// @notice Returns the maximum amount minted per epoch.
+    /// @return The per-epoch cap, in cUSDT base units.
+    function epochCap() external view returns (uint64) {
+        return _getConfidentialUSDTStorage().epochCap;
+    }
+
+    /// @notice Returns the epoch index (`block.timestamp / EPOCH_DURATION`) that `epochMinted` refers to.
+    /// @return The epoch index.
+    function currentEpoch() external view returns (uint256) {
+        return _getConfidentialUSDTStorage().currentEpoch;
+    }
+
+    /// @notice Returns the amount `minter` may mint since its allowance was last set.
+    /// @param minter The minter.
+    /// @return The allowance, in cUSDT base units.
+    function minterAllowance(address minter) external view returns (uint64) {
+        return _getConfidentialUSDTStorage().minterAllowance[minter];
+    }
+
+    /// @notice Returns the encrypted total minted against `lifetimeCap`, decryptable by the owner.
+    /// @return The encrypted lifetime total.
+    function lifetimeMinted() external view returns (euint64) {
+        return _getConfidentialUSDTStorage().lifetimeMinted;
+    }
+
+    /// @notice Returns the encrypted amount minted in `currentEpoch`, decryptable by the owner.
+    /// @dev The value is stale once `currentEpoch` has passed; the next mint starts the new epoch from zero.
+    /// @return The encrypted epoch total.
+    function epochMinted() external view returns (euint64) {
+        return _getConfidentialUSDTStorage().epochMinted;
+    }
+
+    /// @notice Returns the encrypted amount `minter` minted since its allowance was set, decryptable by the minter.
+    /// @param minter The minter.
+    /// @return The encrypted amount minted.
+    function mintedSinceAllowance(address minter) external view returns (euint64) {
+        return _getConfidentialUSDTStorage().mintedSinceAllowance[minter];
+    }
+
+    /// @notice Mints an encrypted amount using a cleartext input.
+    /// @param to The recipient.
+    /// @param amount The amount to mint, in cUSDT base units.
+    /// @return The encrypted amount actually minted.
+    function mintFromPlain(address to, uint64 amount) external onlyRole(MINTER_ROLE) returns (euint64) {
         euint64 encryptedAmount = FHE.asEuint64(amount);
-        return _mint(to, encryptedAmount);
+        return _mintWithinBudget(to, encryptedAmount);
     }
 
     /// @notice Mints an already encrypted amount.
-    function mintEncrypted(address to, euint64 amount) external returns (euint64) {
-        if (msg.sender != minter) {
-            revert UnauthorizedMinter(msg.sender);
+    /// @dev The minted amount is clamped to the remaining budgets; the returned handle is readable by the minter
+    /// for the rest of the transaction so it can carry the shortfall over.
+    /// @param to The recipient.
+    /// @param amount The encrypted amount to mint; the caller must be allowed to use it.
+    /// @return The encrypted amount actually minted.
+    function mintEncrypted(address to, euint64 amount) external onlyRole(MINTER_ROLE) returns (euint64) {
+        return _mintWithinBudget(to, amount);
+    }
+
+    /// @notice Burns up to `amount` from `from`; nothing is burned when the balance is too low.
+    /// @dev The caller must be allowed to use `amount` and must be `from` or one of its operators, so the role alone
+    /// does not reach other holders' balances. The returned handle is readable by the caller for the rest of the
+    /// transaction.
+    /// @param from The account to burn from.
+    /// @param amount The encrypted amount to burn.
+    /// @return The encrypted amount actually burned.
+    function burnEncrypted(address from, euint64 amount) external onlyRole(BURNER_ROLE) returns (euint64) {
+        require(FHE.isAllowed(amount, msg.sender), ERC7984UnauthorizedUseOfEncryptedAmount(amount, msg.sender));
+        require(from == msg.sender || isOperator(from, msg.sender), ERC7984UnauthorizedSpender(from, msg.sender));
+
+        euint64 burned = _burn(from, amount);
+        FHE.allowTransient(burned, msg.sender);
+        return burned;
+    }
+
+    /// @inheritdoc ERC7984
+    function name() public pure override returns (string memory) {
+        return NAME;
+    }
+
+    /// @inheritdoc ERC7984
+    function symbol() public pure override returns (string memory) {
+        return SYMBOL;
+    }
+
+    /// @inheritdoc ERC7984
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(ERC7984, AccessControlDefaultAdminRulesUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @notice Blocks transfers, mints and burns while paused.
+    /// @param from The sender, or the zero address for a mint.
+    /// @param to The recipient, or the zero address for a burn.
+    /// @param amount The encrypted amount to move.
+    /// @return transferred The encrypted amount actually moved.
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override whenNotPaused returns (euint64 transferred) {
+        return super._update(from, to, amount);
+    }
+
+    /// @notice Mints `amount` to `to`, within the budgets.
+    /// @dev Clamps `amount` to what is left of the caller's allowance and both caps.
+    /// @param to The recipient.
+    /// @param amount The encrypted amount requested.
+    /// @return The encrypted amount minted, readable by the caller for the rest of the transaction.
+    function _mintWithinBudget(address to, euint64 amount) private returns (euint64) {
+        euint64 granted = FHE.min(amount, _mintable(msg.sender));
+
+        ConfidentialUSDTStorage storage $ = _getConfidentialUSDTStorage();
+        $.lifetimeMinted = FHE.add($.lifetimeMinted, granted);
+        FHE.allowThis($.lifetimeMinted);
+        FHE.allow($.lifetimeMinted, owner());
+        $.epochMinted = FHE.add($.epochMinted, granted);
+        FHE.allowThis($.epochMinted);
+        FHE.allow($.epochMinted, owner());
+        $.mintedSinceAllowance[msg.sender] = FHE.add($.mintedSinceAllowance[msg.sender], granted);
+        FHE.allowThis($.mintedSinceAllowance[msg.sender]);
+        FHE.allow($.mintedSinceAllowance[msg.sender], msg.sender);
+
+        euint64 minted = _mint(to, granted);
+        FHE.allowTransient(minted, msg.sender);
+        return minted;
+    }
+
+    /// @notice Returns what `minter` may still mint.
+    /// @dev Starts a new epoch when needed and returns the smallest remaining allowance. The lifetime total never
+    /// exceeds `lifetimeCap`, which only grows, but the other totals may exceed a lowered limit, so those
+    /// allowances are floored at zero.
+    /// @param minter The minter.
+    /// @return The encrypted amount that can be minted.
+    function _mintable(address minter) private returns (euint64) {
+        ConfidentialUSDTStorage storage $ = _getConfidentialUSDTStorage();
+        uint256 epoch = block.timestamp / EPOCH_DURATION;
+        if (epoch != $.currentEpoch || !FHE.isInitialized($.epochMinted)) {
+            $.currentEpoch = epoch;
+            $.epochMinted = FHE.asEuint64(0);
+            emit EmissionEpochStarted(epoch, $.epochCap);
+        }
+        if (!FHE.isInitialized($.lifetimeMinted)) {
+            $.lifetimeMinted = FHE.asEuint64(0);
         }
+        if (!FHE.isInitialized($.mintedSinceAllowance[minter])) {
+            $.mintedSinceAllowance[minter] = FHE.asEuint64(0);
+        }
+
+        euint64 lifetimeLeft = FHE.sub($.lifetimeCap, $.lifetimeMinted);
+        euint64 epochLeft = _flooredSub($.epochCap, $.epochMinted);
+        euint64 minterLeft = _flooredSub($.minterAllowance[minter], $.mintedSinceAllowance[minter]);
+        return FHE.min(lifetimeLeft, FHE.min(epochLeft, minterLeft));
+    }
 
-        return _mint(to, amount);
+    /// @notice Returns `limit - used`, or zero when `used` exceeds `limit`.
+    /// @param limit The cleartext limit.
+    /// @param used The encrypted amount used.
+    /// @return The encrypted amount left.
+    function _flooredSub(uint64 limit, euint64 used) private returns (euint64) {
+        return FHE.select(FHE.le(used, limit), FHE.sub(limit, used), FHE.asEuint64(0));
+    }
+
+    /// @notice Only the default admin can upgrade the token.
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /// @notice Returns the namespaced storage of the token.
+    /// @return $ The storage struct at `CONFIDENTIAL_USDT_STORAGE_LOCATION`.
+    function _getConfidentialUSDTStorage() private pure returns (ConfidentialUSDTStorage storage $) {
+        assembly {
+            $.slot := CONFIDENTIAL_USDT_STORAGE_LOCATION
+        }
     }
 }
@@ -1,121 +1,750 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.27;
 
-import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
-import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {NoncesUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint64, euint128, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialShareVault} from "./ConfidentialShareVault.sol";
+import {ConfidentialStakedETH} from "./ConfidentialStakedETH.sol";
 import {ConfidentialUSDT} from "./ConfidentialUSDT.sol";
 
 /// @title SecretRate
 /// @notice ETH staking vault that records deposits privately and pays yield in confidential cUSDT.
-contract SecretRate is ZamaEthereumConfig, ReentrancyGuard {
+/// @dev Deployed behind an ERC-1967 proxy and upgraded by the owner (UUPS). All state lives in the namespaced
+/// `SecretRateStorage` struct so implementations can add fields without shifting existing ones. When a receipt token
+/// is set, every stake is mirrored by csETH that moves the stake along with it when transferred. The EIP-712 domain
+/// name and version are constants, so signed actions work on proxies initialized before they existed.
+contract SecretRate is
+    Initializable,
+    ZamaEthereumConfig,
+    UUPSUpgradeable,
+    ReentrancyGuardUpgradeable,
+    OwnableUpgradeable,
+    EIP712Upgradeable,
+    NoncesUpgradeable
+{
     struct StakePosition {
         euint64 encryptedAmount;
         uint256 plainAmount;
         uint256 lastAccrual;
-        uint256 accruedRewards;
+        uint256 rewardPerTokenPaid;
+        euint64 accruedRewards;
+        euint64 pendingWithdrawal;
+        uint256 withdrawRequestedAt;
+        uint256 lockEnd;
+        uint8 lockTier;
+        bool confidential;
+        bool emergencyExit;
+        bool autoSweep;
+        euint64 lockedAmount;
     }
 
-    ConfidentialUSDT public immutable cusdt;
+    /// @notice Position handed to a successor vault by `migratePosition`.
+    struct MigratedPosition {
+        euint64 encryptedAmount;
+        euint64 accruedRewards;
+        uint256 plainAmount;
+        uint256 lastAccrual;
+        uint256 lockEnd;
+        uint8 lockTier;
+        bool confidential;
+        euint64 lockedAmount;
+    }
 
-    uint256 public constant REWARD_PER_ETH_PER_DAY = 1_000_000; // 1 cUSDT (6 decimals) per ETH per day
+    /// @notice Reward rate set at initialization: 1 cUSDT (6 decimals) per ETH per day.
+    uint256 public constant DEFAULT_REWARD_RATE = 1_000_000;
+    /// @notice Highest reward rate, which keeps the 128-bit accrual product from overflowing.
+    uint256 public constant MAX_REWARD_RATE = 100_000_000;
+    /// @notice Vault deposits must be a multiple of this amount.
+    uint256 public constant DEPOSIT_DENOMINATION = 0.01 ether;
+    /// @notice Time after which a withdraw request that was not finalized can be cancelled.
+    uint256 public constant WITHDRAWAL_TIMEOUT = 1 days;
+    /// @notice Share of the locked stake, in basis points, forfeited when leaving a lock early.
+    uint256 public constant EARLY_EXIT_PENALTY_BPS = 1_000;
+    uint256 private constant MIN_RESERVE_DISCLOSURE = 5; // migrations covered by each disclosed reserve total
     uint256 private constant SECONDS_PER_DAY = 86_400;
+    uint256 private constant BPS = 10_000;
 
-    mapping(address user => StakePosition) private _stakes;
-    mapping(bytes32 encryptedHandle => address owner) private _withdrawalOwner;
+    /// @notice Pause scope of staking and deposits.
+    uint8 public constant PAUSE_DEPOSITS = 1;
+    /// @notice Pause scope of yield claims.
+    uint8 public constant PAUSE_CLAIMS = 2;
+    /// @notice Pause scope of withdrawals and migrations.
+    uint8 public constant PAUSE_WITHDRAWALS = 4;
 
+    /// @notice EIP-712 type hash of a signed `claimInterestFor`.
+    bytes32 public constant CLAIM_INTEREST_TYPEHASH =
+        keccak256("ClaimInterest(address staker,uint256 nonce,uint256 deadline)");
+    /// @notice EIP-712 type hash of a signed `requestWithdrawFor`.
+    bytes32 public constant REQUEST_WITHDRAW_TYPEHASH =
+        keccak256("RequestWithdraw(address staker,uint256 nonce,uint256 deadline)");
+
+    string private constant EIP712_NAME = "SecretRate";
+    string private constant EIP712_VERSION = "1";
+
+    /// @custom:storage-location erc7201:secretrate.storage.SecretRate
+    struct SecretRateStorage {
+        ConfidentialUSDT cusdt;
+        uint256 rewardRate;
+        uint256 rewardPerTokenStored;
+        uint256 lastRateUpdate;
+        address guardian;
+        uint8 pausedScopes;
+        mapping(address user => StakePosition) stakes;
+        mapping(address user => euint64) depositBalance;
+        mapping(bytes32 encryptedHandle => address owner) withdrawalOwner;
+        euint64 forfeitedPenalties;
+        address successor;
+        address predecessor;
+        ConfidentialShareVault shareVault;
+        ConfidentialStakedETH receiptToken;
+        mapping(address holder => mapping(address operator => uint48 until)) operators;
+        euint64 disclosedPenalties;
+        mapping(address successor => euint128) migratedReserves;
+        mapping(address successor => euint128) disclosedReserves;
+        mapping(address successor => uint256) reserveAllowance;
+        mapping(address successor => uint256) undisclosedMigrations;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("secretrate.storage.SecretRate")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant SECRET_RATE_STORAGE_LOCATION =
+        0x717d5f5d37321054308ebc87687e9235f02e9bd28506b07c0b3339fb7b60b700;
+
+    /// @notice Emitted when ETH is added to a user's encrypted vault balance.
+    /// @param user The depositor.
+    /// @param amount The wei deposited.
+    /// @param encryptedBalance The new vault balance.
+    event Deposited(address indexed user, uint256 amount, euint64 encryptedBalance);
+
+    /// @notice Emitted when ETH is staked in clear.
+    /// @param user The position staked into.
+    /// @param amount The wei staked.
+    /// @param encryptedTotal The new encrypted stake.
     event Staked(address indexed user, uint256 amount, euint64 encryptedTotal);
-    event InterestClaimed(address indexed user, uint256 reward, euint64 encryptedMinted);
+
+    /// @notice Emitted when an encrypted amount moves from the vault balance into the stake.
+    /// @param user The staker.
+    /// @param encryptedTotal The new encrypted stake.
+    event StakedEncrypted(address indexed user, euint64 encryptedTotal);
+
+    /// @notice Emitted when yield is minted to the staker.
+    /// @param user The staker.
+    /// @param encryptedMinted The cUSDT minted.
+    event InterestClaimed(address indexed user, euint64 encryptedMinted);
+
+    /// @notice Emitted when a full withdraw is requested.
+    /// @param user The staker.
+    /// @param plainAmount The publicly staked wei, a lower bound of the disclosed amount.
+    /// @param encryptedHandle The handle made publicly decryptable.
     event WithdrawalRequested(address indexed user, uint256 plainAmount, bytes32 encryptedHandle);
+
+    /// @notice Emitted when a partial withdraw is requested.
+    /// @param user The staker.
+    /// @param encryptedHandle The withdrawable handle made publicly decryptable.
+    event PartialWithdrawalRequested(address indexed user, bytes32 encryptedHandle);
+
+    /// @notice Emitted when a withdraw is paid out.
+    /// @param user The staker.
+    /// @param plainAmount The wei paid.
     event WithdrawalFinalized(address indexed user, uint256 plainAmount);
 
+    /// @notice Emitted when an expired withdraw request is cancelled.
+    /// @param user The staker.
+    /// @param encryptedHandle The handle of the cancelled request.
+    event WithdrawalCancelled(address indexed user, bytes32 encryptedHandle);
+
+    /// @notice Emitted when the owner changes the reward rate.
+    /// @param previousRate The rate until now.
+    /// @param newRate The rate from now on.
+    /// @param rewardPerToken The accumulator checkpointed at the change.
+    event RewardRateUpdated(uint256 previousRate, uint256 newRate, uint256 rewardPerToken);
+
+    /// @notice Emitted when a position is locked or its lock extended.
+    /// @param user The staker.
+    /// @param lockTier The lock tier.
+    /// @param lockEnd When the lock ends.
+    event Locked(address indexed user, uint8 lockTier, uint256 lockEnd);
+
+    /// @notice Emitted when a lock is left early.
+    /// @param user The staker.
+    /// @param encryptedPenalty The forfeited stake.
+    event EarlyExitPenalized(address indexed user, euint64 encryptedPenalty);
+
+    /// @notice Emitted when the owner sets the guardian.
+    /// @param newGuardian The new guardian.
+    event GuardianUpdated(address indexed newGuardian);
+
+    /// @notice Emitted when scopes are paused.
+    /// @param account The guardian or owner that paused.
+    /// @param scopes The `PAUSE_*` scopes paused.
+    event Paused(address indexed account, uint8 scopes);
+
+    /// @notice Emitted when scopes are unpaused.
+    /// @param account The owner.
+    /// @param scopes The `PAUSE_*` scopes unpaused.
+    event Unpaused(address indexed account, uint8 scopes);
+
+    /// @notice Emitted when a withdraw is started or moved onto the emergency path.
+    /// @param user The staker.
+    /// @param encryptedHandle The handle made publicly decryptable.
+    event EmergencyWithdrawalRequested(address indexed user, bytes32 encryptedHandle);
+
+    /// @notice Emitted when the owner sets the vault positions can be migrated to.
+    /// @param newSuccessor The successor vault.
+    event SuccessorUpdated(address indexed newSuccessor);
+
+    /// @notice Emitted when the owner sets the vault positions are accepted from.
+    /// @param newPredecessor The predecessor vault.
+    event PredecessorUpdated(address indexed newPredecessor);
+
+    /// @notice Emitted when a position is handed to the successor.
+    /// @param user The staker.
+    /// @param successor The successor vault.
+    /// @param encryptedAmount The stake migrated.
+    event PositionMigrated(address indexed user, address indexed successor, euint64 encryptedAmount);
+
+    /// @notice Emitted when a position migrated from the predecessor is taken over.
+    /// @param user The staker.
+    /// @param predecessor The predecessor vault.
+    /// @param encryptedAmount The stake received.
+    event PositionReceived(address indexed user, address indexed predecessor, euint64 encryptedAmount);
+
+    /// @notice Emitted when a successor draws ETH backing its migrated positions.
+    /// @param successor The successor vault.
+    /// @param amount The wei sent.
+    event ReservesReleased(address indexed successor, uint256 amount);
+
+    /// @notice Emitted when the principal migrated to a successor is made publicly decryptable.
+    /// @param successor The successor vault.
+    /// @param encryptedHandle The disclosed total.
+    event ReservesDisclosed(address indexed successor, bytes32 encryptedHandle);
+
+    /// @notice Emitted when a disclosed total is added to what a successor can draw.
+    /// @param successor The successor vault.
+    /// @param amount The wei added.
+    event ReservesSettled(address indexed successor, uint256 amount);
+
+    /// @notice Emitted when the owner sets the share vault.
+    /// @param newShareVault The share vault.
+    event ShareVaultUpdated(address indexed newShareVault);
+
+    /// @notice Emitted when a user opts in or out of sweeping their yield.
+    /// @param user The staker.
+    /// @param enabled Whether yield is swept.
+    event AutoSweepUpdated(address indexed user, bool enabled);
+
+    /// @notice Emitted when yield is swept into the share vault for a user.
+    /// @param user The staker credited the shares.
+    /// @param encryptedMinted The cUSDT minted into the share vault.
+    event YieldSwept(address indexed user, euint64 encryptedMinted);
+
+    /// @notice Emitted when the owner sets the receipt token.
+    /// @param newReceiptToken The csETH token.
+    event ReceiptTokenUpdated(address indexed newReceiptToken);
+
+    /// @notice Emitted when stake moves along with a csETH transfer.
+    /// @param from The sender.
+    /// @param to The recipient.
+    /// @param encryptedAmount The wei of stake moved.
+    event StakeTransferred(address indexed from, address indexed to, euint64 encryptedAmount);
+
+    /// @notice Emitted when a staker sets an operator.
+    /// @param holder The staker.
+    /// @param operator The operator.
+    /// @param until When the approval ends.
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    /// @notice Emitted for each stake made into someone else's position.
+    /// @param funder The account that paid.
+    /// @param beneficiary The position staked into.
+    /// @param encryptedTotal The beneficiary's new encrypted stake.
+    event StakedFor(address indexed funder, address indexed beneficiary, euint64 encryptedTotal);
+
+    /// @notice Emitted when the forfeited penalties are made publicly decryptable.
+    /// @param encryptedHandle The disclosed total.
+    event PenaltiesDisclosed(bytes32 encryptedHandle);
+
+    /// @notice Emitted when the disclosed penalties are paid out.
+    /// @param to The recipient.
+    /// @param amount The wei paid.
+    event PenaltiesClaimed(address indexed to, uint256 amount);
+
+    /// @notice The call needs a stake, or ETH to stake.
     error NoStake();
+    /// @notice Deposits must be a non-zero multiple of `DEPOSIT_DENOMINATION`.
+    error InvalidDenomination();
+    /// @notice The handle or decrypted amount does not match a pending withdraw.
     error InvalidProof();
+    /// @notice The amount does not fit the 64-bit encrypted stake.
     error RewardTooLarge();
+    /// @notice The position has a withdraw pending.
     error WithdrawInProgress();
+    /// @notice The caller has no withdraw pending.
+    error NoWithdrawal();
+    /// @notice The withdraw request cannot be cancelled yet.
+    /// @param expiresAt When it can be.
+    error WithdrawalNotExpired(uint256 expiresAt);
+    /// @notice The reward rate is above the maximum.
+    /// @param maxRate The maximum.
+    error RewardRateTooHigh(uint256 maxRate);
+    /// @notice The lock tier does not exist.
+    /// @param lockTier The tier requested.
+    error InvalidLockTier(uint8 lockTier);
+    /// @notice The new lock would end before the current one.
+    /// @param lockEnd When the current lock ends.
+    error LockShortened(uint256 lockEnd);
+    /// @notice The stake is locked.
+    /// @param lockEnd When the lock ends.
+    error StakeLocked(uint256 lockEnd);
+    /// @notice Only the guardian or the owner can pause.
+    /// @param caller The caller.
+    error NotGuardian(address caller);
+    /// @notice The scope is paused.
+    /// @param scope The `PAUSE_*` scope.
+    error VaultPaused(uint8 scope);
+    /// @notice No successor vault is set.
+    error NoSuccessor();
+    /// @notice The successor asked for more ETH than it can draw.
+    /// @param available What it can draw.
+    error InsufficientReserves(uint256 available);
+    /// @notice Only the predecessor vault can call.
+    /// @param caller The caller.
+    error NotPredecessor(address caller);
+    /// @notice No share vault is set.
+    error NoShareVault();
+    /// @notice The user has not opted into sweeping their yield.
+    /// @param user The user.
+    error AutoSweepDisabled(address user);
+    /// @notice Only the receipt token can call.
+    /// @param caller The caller.
+    error NotReceiptToken(address caller);
+    /// @notice The caller is not an operator of the holder.
+    /// @param holder The staker.
+    /// @param caller The caller.
+    error NotOperator(address holder, address caller);
+    /// @notice The signature is not the staker's.
+    error InvalidSignature();
+    /// @notice The signature is past its deadline.
+    /// @param deadline The deadline.
+    error SignatureExpired(uint256 deadline);
+    /// @notice The batch arrays differ in length.
+    error BatchLengthMismatch();
+    /// @notice A disclosed total is still waiting to be paid out.
+    error DisclosurePending();
+    /// @notice There is no total to disclose.
+    error NothingToDisclose();
+    /// @notice Nothing was disclosed to pay out.
+    error NotDisclosed();
+    /// @notice Too few migrations to disclose their total without revealing a single position.
+    /// @param migrations The migrations since the last disclosure.
+    error TooFewMigrations(uint256 migrations);
 
-    constructor(address cusdtAddress) {
+    /// @notice Locks the implementation; proxies are set up through `initialize`.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the proxy with the cUSDT token the yield is paid in; the caller becomes the owner.
+    /// @dev The FHEVM coprocessor config set by `ZamaEthereumConfig` lives in the implementation's storage, so it
+    /// is applied to the proxy here as well.
+    /// @param cusdtAddress The cUSDT token, which must grant this vault `MINTER_ROLE`.
+    function initialize(address cusdtAddress) external initializer {
         require(cusdtAddress != address(0), "cUSDT required");
-        cusdt = ConfidentialUSDT(cusdtAddress);
+        __ReentrancyGuard_init();
+        __Ownable_init(msg.sender);
+        __UUPSUpgradeable_init();
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        $.cusdt = ConfidentialUSDT(cusdtAddress);
+        $.rewardRate = DEFAULT_REWARD_RATE;
+        $.lastRateUpdate = block.timestamp;
     }
 
-    /// @notice Stakes ETH and stores the encrypted position.
-    function stake() external payable nonReentrant {
-        if (msg.value == 0) {
-            revert NoStake();
+    /// @notice Accepts ETH reserves released by the predecessor vault.
+    receive() external payable {
+        if (msg.sender != _getSecretRateStorage().predecessor) {
+            revert NotPredecessor(msg.sender);
         }
-        if (msg.value > type(uint64).max) {
-            revert RewardTooLarge();
+    }
+
+    /// @notice Changes the reward rate, checkpointing the accumulator so earlier yield keeps the previous rate.
+    /// @param newRate cUSDT base units per staked ETH per day.
+    function setRewardRate(uint256 newRate) external onlyOwner {
+        if (newRate > MAX_REWARD_RATE) {
+            revert RewardRateTooHigh(MAX_REWARD_RATE);
         }
 
-        _updateRewards(msg.sender);
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        uint256 accumulated = rewardPerToken();
+        $.rewardPerTokenStored = accumulated;
+        $.lastRateUpdate = block.timestamp;
 
-        StakePosition storage position = _stakes[msg.sender];
-        bytes32 currentHandle = FHE.toBytes32(position.encryptedAmount);
-        if (_withdrawalOwner[currentHandle] != address(0)) {
-            revert WithdrawInProgress();
+        emit RewardRateUpdated($.rewardRate, newRate, accumulated);
+        $.rewardRate = newRate;
+    }
+
+    /// @notice Sets the account that can pause the vault.
+    /// @param newGuardian The guardian, or the zero address for none.
+    function setGuardian(address newGuardian) external onlyOwner {
+        _getSecretRateStorage().guardian = newGuardian;
+        emit GuardianUpdated(newGuardian);
+    }
+
+    /// @notice Pauses the given `PAUSE_*` scopes. Callable by the guardian or the owner.
+    /// @dev `emergencyWithdraw` and finalizing emergency exits stay available whatever is paused.
+    /// @param scopes The `PAUSE_*` scopes to pause.
+    function pause(uint8 scopes) external {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (msg.sender != $.guardian && msg.sender != owner()) {
+            revert NotGuardian(msg.sender);
         }
+        $.pausedScopes |= scopes;
+        emit Paused(msg.sender, scopes);
+    }
 
-        euint64 current = position.encryptedAmount;
-        if (!FHE.isInitialized(current)) {
-            current = FHE.asEuint64(0);
+    /// @notice Unpauses the given `PAUSE_*` scopes.
+    /// @param scopes The `PAUSE_*` scopes to unpause.
+    function unpause(uint8 scopes) external onlyOwner {
+        _getSecretRateStorage().pausedScopes &= ~scopes;
+        emit Unpaused(msg.sender, scopes);
+    }
+
+    /// @notice Approves the vault that positions can be migrated to, or stops new migrations with the zero address.
+    /// @dev Vaults positions were migrated to keep drawing their settled reserves whatever the current successor.
+    /// @param newSuccessor The successor vault.
+    function setSuccessor(address newSuccessor) external onlyOwner {
+        _getSecretRateStorage().successor = newSuccessor;
+        emit SuccessorUpdated(newSuccessor);
+    }
+
+    /// @notice Sets the cUSDT share vault that swept yield is deposited into.
+    /// @param newShareVault The share vault, or the zero address to stop sweeping.
+    function setShareVault(address newShareVault) external onlyOwner {
+        _getSecretRateStorage().shareVault = ConfidentialShareVault(newShareVault);
+        emit ShareVaultUpdated(newShareVault);
+    }
+
+    /// @notice Sets the csETH receipt token that mirrors the stakes.
+    /// @dev Positions opened before are issued their receipt on their next stake, withdraw or `checkpointRewards`.
+    /// @param newReceiptToken The csETH token, or the zero address for none.
+    function setReceiptToken(address newReceiptToken) external onlyOwner {
+        _getSecretRateStorage().receiptToken = ConfidentialStakedETH(newReceiptToken);
+        emit ReceiptTokenUpdated(newReceiptToken);
+    }
+
+    /// @notice Sets the vault whose positions this vault accepts through `acceptMigratedPosition`.
+    /// @param newPredecessor The predecessor vault.
+    function setPredecessor(address newPredecessor) external onlyOwner {
+        _getSecretRateStorage().predecessor = newPredecessor;
+        emit PredecessorUpdated(newPredecessor);
+    }
+
+    /// @notice Starts paying out the forfeited early-exit penalties by making their total publicly decryptable.
+    /// @dev Penalties forfeited from now on accrue into a new total, claimable once this one is paid out.
+    function disclosePenalties() external onlyOwner {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (FHE.isInitialized($.disclosedPenalties)) {
+            revert DisclosurePending();
+        }
+        euint64 forfeited = $.forfeitedPenalties;
+        if (!FHE.isInitialized(forfeited)) {
+            revert NothingToDisclose();
         }
 
-        euint64 deposit = FHE.asEuint64(uint64(msg.value));
-        euint64 updated = FHE.add(current, deposit);
+        FHE.makePubliclyDecryptable(forfeited);
+        $.disclosedPenalties = forfeited;
+        $.forfeitedPenalties = euint64.wrap(0);
 
-        FHE.allowThis(updated);
-        FHE.allow(updated, msg.sender);
+        emit PenaltiesDisclosed(FHE.toBytes32(forfeited));
+    }
 
-        position.encryptedAmount = updated;
-        position.plainAmount += msg.value;
-        if (position.lastAccrual == 0) {
-            position.lastAccrual = block.timestamp;
+    /// @notice Sends the ETH of the penalties disclosed by `disclosePenalties` to `to`.
+    /// @param to The recipient.
+    /// @param clearAmount The decrypted total of `disclosedPenalties()`.
+    /// @param decryptionProof The public decryption proof for it.
+    function claimPenalties(address to, uint64 clearAmount, bytes calldata decryptionProof) external onlyOwner {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint64 disclosed = $.disclosedPenalties;
+        if (!FHE.isInitialized(disclosed)) {
+            revert NotDisclosed();
+        }
+
+        _checkDecryption(FHE.toBytes32(disclosed), clearAmount, decryptionProof);
+
+        $.disclosedPenalties = euint64.wrap(0);
+        _payout(to, clearAmount);
+
+        emit PenaltiesClaimed(to, clearAmount);
+    }
+
+    /// @notice Stakes ETH and stores the encrypted position.
+    function stake() external payable nonReentrant {
+        _stake(msg.sender, 0);
+    }
+
+    /// @notice Stakes ETH and locks the whole position for the duration of `lockTier`. The ETH staked here earns
+    /// boosted yield until the lock ends.
+    /// @param lockTier The lock tier, see `lockTierTerms`.
+    function stakeWithLock(uint8 lockTier) external payable nonReentrant {
+        _stake(msg.sender, lockTier);
+    }
+
+    /// @notice Stakes ETH into `beneficiary`'s position, e.g. as a gift. Only the beneficiary can decrypt it.
+    /// @param beneficiary The position to stake into.
+    function stakeFor(address beneficiary) external payable nonReentrant {
+        _stake(beneficiary, 0);
+        emit StakedFor(msg.sender, beneficiary, _getSecretRateStorage().stakes[beneficiary].encryptedAmount);
+    }
+
+    /// @notice Deposits ETH into the caller's encrypted vault balance without staking it.
+    /// @dev Deposits must be a multiple of `DEPOSIT_DENOMINATION` so they do not fingerprint the later stake.
+    function deposit() external payable nonReentrant {
+        _requireNotPaused(PAUSE_DEPOSITS);
+        _deposit(msg.sender, msg.value);
+    }
+
+    /// @notice Moves an encrypted amount from the vault balance into the stake, topping up the balance first.
+    /// @dev When the requested amount exceeds the vault balance nothing is moved, so the outcome stays private.
+    /// @param encryptedAmount The encrypted amount of wei to stake.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    function stakeEncrypted(externalEuint64 encryptedAmount, bytes calldata inputProof) external payable nonReentrant {
+        _stakeEncrypted(encryptedAmount, inputProof, 0);
+    }
+
+    /// @notice Same as `stakeEncrypted`, additionally locking the whole position for the duration of `lockTier`. The
+    /// amount staked here earns boosted yield until the lock ends.
+    /// @param encryptedAmount The encrypted amount of wei to stake.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    /// @param lockTier The lock tier, see `lockTierTerms`.
+    function stakeEncryptedWithLock(
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        uint8 lockTier
+    ) external payable nonReentrant {
+        _stakeEncrypted(encryptedAmount, inputProof, lockTier);
+    }
+
+    /// @notice Stakes encrypted amounts into several positions at once, e.g. for payroll. The ETH sent is added to
+    /// the caller's vault balance first and every amount is taken from that balance.
+    /// @dev As with `stakeEncrypted`, an amount the remaining balance does not cover moves nothing, and whatever is
+    /// not staked stays in the caller's vault balance. Each new stake is decryptable by its beneficiary only and the
+    /// events carry no amounts. The batch reverts if any beneficiary has a withdrawal pending.
+    /// @param beneficiaries The positions to stake into.
+    /// @param encryptedAmounts The encrypted amounts of wei, one per beneficiary.
+    /// @param inputProof The input proof for all `encryptedAmounts`.
+    function stakeForMany(
+        address[] calldata beneficiaries,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata inputProof
+    ) external payable nonReentrant {
+        _requireNotPaused(PAUSE_DEPOSITS);
+        if (beneficiaries.length != encryptedAmounts.length) {
+            revert BatchLengthMismatch();
+        }
+        if (msg.value > 0) {
+            _deposit(msg.sender, msg.value);
         }
 
-        emit Staked(msg.sender, msg.value, updated);
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint64 balance = $.depositBalance[msg.sender];
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+        }
+        for (uint256 i = 0; i < beneficiaries.length; ++i) {
+            address beneficiary = beneficiaries[i];
+            balance = _stakeFromBalance(beneficiary, FHE.fromExternal(encryptedAmounts[i], inputProof), balance);
+            emit StakedFor(msg.sender, beneficiary, $.stakes[beneficiary].encryptedAmount);
+        }
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+        $.depositBalance[msg.sender] = balance;
     }
 
-    /// @notice Claims accumulated cUSDT interest.
+    /// @notice Claims accumulated cUSDT interest by minting the encrypted accrued rewards.
+    /// @dev cUSDT clamps mints to its emission budget; whatever was not minted stays accrued and can be claimed
+    /// once the budget is topped up or the next epoch starts. With auto-sweep on, this behaves like `sweepYield`.
     function claimInterest() external nonReentrant {
-        _updateRewards(msg.sender);
+        _claim(msg.sender);
+    }
 
-        StakePosition storage position = _stakes[msg.sender];
-        uint256 reward = position.accruedRewards;
-        if (reward == 0) {
-            return;
+    /// @notice Claims `staker`'s interest as one of their operators. The cUSDT is minted to the staker.
+    /// @param staker The staker to claim for.
+    function claimInterestFor(address staker) external nonReentrant {
+        _requireOperator(staker);
+        _claim(staker);
+    }
+
+    /// @notice Claims `staker`'s interest with their EIP-712 `ClaimInterest` signature, so a relayer can pay the gas.
+    /// @dev The signature covers the staker's current `nonces` value and `deadline`; the cUSDT is minted to the
+    /// staker. Contract wallets sign through ERC-1271.
+    /// @param staker The staker to claim for.
+    /// @param deadline When the signature expires.
+    /// @param signature The staker's signature.
+    function claimInterestFor(address staker, uint256 deadline, bytes calldata signature) external nonReentrant {
+        _useSignature(CLAIM_INTEREST_TYPEHASH, staker, deadline, signature);
+        _claim(staker);
+    }
+
+    /// @notice Lets `operator` claim and start withdrawals for the caller until the `until` timestamp.
+    /// @dev Mirrors ERC7984 `setOperator`: pass a past timestamp, such as 0, to revoke. Withdrawn ETH and claimed
+    /// cUSDT always go to the staker.
+    /// @param operator The operator.
+    /// @param until When the approval ends.
+    function setOperator(address operator, uint48 until) external {
+        _getSecretRateStorage().operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @notice Opts the caller in or out of sweeping claimed yield into the share vault.
+    /// @dev Swept cUSDT is held 1:1 as scUSDT shares; it does not earn yield of its own.
+    /// @param enabled Whether to sweep.
+    function setAutoSweep(bool enabled) external {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (enabled && address($.shareVault) == address(0)) {
+            revert NoShareVault();
         }
-        if (reward > type(uint64).max) {
-            revert RewardTooLarge();
+        $.stakes[msg.sender].autoSweep = enabled;
+        emit AutoSweepUpdated(msg.sender, enabled);
+    }
+
+    /// @notice Claims `user`'s yield into the share vault, crediting the shares to `user`. Callable by anyone, so a
+    /// keeper can sweep on behalf of users that opted in with `setAutoSweep`.
+    /// @param user The opted-in staker.
+    function sweepYield(address user) external nonReentrant {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (address($.shareVault) == address(0)) {
+            revert NoShareVault();
+        }
+        if (!$.stakes[user].autoSweep) {
+            revert AutoSweepDisabled(user);
         }
+        _claim(user);
+    }
 
-        position.accruedRewards = 0;
-        euint64 minted = cusdt.mintFromPlain(msg.sender, uint64(reward));
-        emit InterestClaimed(msg.sender, reward, minted);
+    /// @notice Rolls in-flight yield into the caller's encrypted accrued rewards and syncs their csETH.
+    function checkpointRewards() external nonReentrant {
+        _updateRewards(msg.sender);
+        _syncReceipt(msg.sender);
     }
 
     /// @notice Starts a withdraw by making the encrypted stake publicly decryptable.
+    /// @dev Any unstaked vault balance is folded into the disclosed amount so a full exit drains both.
     function requestWithdraw() external nonReentrant {
-        StakePosition storage position = _stakes[msg.sender];
-        if (position.plainAmount == 0) {
-            revert NoStake();
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+        _requestWithdraw(msg.sender, false);
+    }
+
+    /// @notice Starts a full withdraw of `staker`'s unlocked stake as one of their operators.
+    /// @dev The ETH is paid to the staker when the request is finalized.
+    /// @param staker The staker to withdraw for.
+    function requestWithdrawFor(address staker) external nonReentrant {
+        _requireOperator(staker);
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+        _requestWithdraw(staker, false);
+    }
+
+    /// @notice Starts a full withdraw before the lock ends, forfeiting `EARLY_EXIT_PENALTY_BPS` of the stake.
+    /// @dev The penalty is computed on the encrypted stake and only the reduced amount is disclosed. Without an
+    /// active lock this behaves exactly like `requestWithdraw`.
+    function requestEarlyWithdraw() external nonReentrant {
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+        _requestWithdraw(msg.sender, true);
+    }
+
+    /// @notice Starts a full withdraw that can be requested and finalized even while withdrawals are paused.
+    /// @dev A withdraw that is already pending, full or partial, is moved to the emergency path instead; after a
+    /// partial one is finalized the rest of the stake exits with another call. Lock rules still apply: an active
+    /// lock is ended with the early-exit penalty.
+    function emergencyWithdraw() external nonReentrant {
+        StakePosition storage position = _getSecretRateStorage().stakes[msg.sender];
+        bytes32 handle = _pendingWithdrawalHandle(msg.sender);
+        if (handle == bytes32(0)) {
+            _requestWithdraw(msg.sender, true);
+            handle = FHE.toBytes32(position.encryptedAmount);
         }
+        position.emergencyExit = true;
 
-        _updateRewards(msg.sender);
+        emit EmergencyWithdrawalRequested(msg.sender, handle);
+    }
 
-        bytes32 handle = FHE.toBytes32(position.encryptedAmount);
-        if (_withdrawalOwner[handle] != address(0)) {
-            revert WithdrawInProgress();
+    /// @notice Starts a full withdraw of `staker`'s unlocked stake with their EIP-712 `RequestWithdraw` signature.
+    /// @dev Same signing rules as the signed `claimInterestFor`; the ETH is paid to the staker on finalization.
+    /// @param staker The staker to withdraw for.
+    /// @param deadline When the signature expires.
+    /// @param signature The staker's signature.
+    function requestWithdrawFor(address staker, uint256 deadline, bytes calldata signature) external nonReentrant {
+        _useSignature(REQUEST_WITHDRAW_TYPEHASH, staker, deadline, signature);
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+        _requestWithdraw(staker, false);
+    }
+
+    /// @notice Starts a partial withdraw of an encrypted amount while the rest of the stake keeps accruing.
+    /// @dev Requests above the stake withdraw nothing; only the withdrawable handle is made publicly decryptable.
+    /// @param encryptedAmount The encrypted amount of wei to withdraw.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    function requestPartialWithdraw(externalEuint64 encryptedAmount, bytes calldata inputProof) external nonReentrant {
+        _requestPartialWithdraw(msg.sender, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Starts a partial withdraw of `staker`'s stake as one of their operators.
+    /// @dev The encrypted amount is input by the operator; the withdrawable handle is only allowed to the staker.
+    /// @param staker The staker to withdraw for.
+    /// @param encryptedAmount The encrypted amount of wei to withdraw.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    function requestPartialWithdrawFor(
+        address staker,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external nonReentrant {
+        _requireOperator(staker);
+        _requestPartialWithdraw(staker, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Cancels a withdraw request that was not finalized within `WITHDRAWAL_TIMEOUT`.
+    /// @dev The stake handle is rotated so the disclosed handle no longer maps to a live request. A cancelled
+    /// partial withdraw returns its amount to the stake; a cancelled full exit keeps any folded vault balance staked.
+    function cancelWithdraw() external nonReentrant {
+        bytes32 handle = _pendingWithdrawalHandle(msg.sender);
+        if (handle == bytes32(0)) {
+            revert NoWithdrawal();
         }
 
-        _withdrawalOwner[handle] = msg.sender;
-        FHE.makePubliclyDecryptable(position.encryptedAmount);
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[msg.sender];
+        uint256 expiresAt = position.withdrawRequestedAt + WITHDRAWAL_TIMEOUT;
+        if (block.timestamp < expiresAt) {
+            revert WithdrawalNotExpired(expiresAt);
+        }
 
-        emit WithdrawalRequested(msg.sender, position.plainAmount, handle);
+        _updateRewards(msg.sender);
+
+        euint64 rotated = FHE.isInitialized(position.pendingWithdrawal)
+            ? FHE.add(position.encryptedAmount, position.pendingWithdrawal)
+            : FHE.add(position.encryptedAmount, uint64(0));
+        FHE.allowThis(rotated);
+        FHE.allow(rotated, msg.sender);
+
+        position.encryptedAmount = rotated;
+        position.pendingWithdrawal = euint64.wrap(0);
+        position.withdrawRequestedAt = 0;
+        position.emergencyExit = false;
+        $.withdrawalOwner[handle] = address(0);
+        _syncReceipt(msg.sender);
+
+        emit WithdrawalCancelled(msg.sender, handle);
     }
 
-    /// @notice Finalizes a withdraw with a decryption proof produced by the relayer.
-    /// @param encryptedAmount The encrypted stake handle that was disclosed.
+    /// @notice Finalizes a full or partial withdraw with a decryption proof produced by the relayer.
+    /// @param encryptedAmount The encrypted stake or withdrawable handle that was disclosed.
     /// @param clearAmount The decrypted stake amount.
     /// @param decryptionProof Proof returned by the relayer for the disclosed handle.
     function finalizeWithdraw(
@@ -123,91 +752,925 @@ contract SecretRate is ZamaEthereumConfig, ReentrancyGuard {
         uint64 clearAmount,
         bytes calldata decryptionProof
     ) external nonReentrant {
+        SecretRateStorage storage $ = _getSecretRateStorage();
         bytes32 handle = FHE.toBytes32(encryptedAmount);
-        address owner = _withdrawalOwner[handle];
+        address owner = $.withdrawalOwner[handle];
         if (owner == address(0)) {
             revert InvalidProof();
         }
 
-        StakePosition storage position = _stakes[owner];
-        if (FHE.toBytes32(position.encryptedAmount) != handle || position.plainAmount != clearAmount) {
+        StakePosition storage position = $.stakes[owner];
+        if (!position.emergencyExit) {
+            _requireNotPaused(PAUSE_WITHDRAWALS);
+        }
+        bool fullExit = FHE.toBytes32(position.encryptedAmount) == handle;
+        if (fullExit ? clearAmount < position.plainAmount : FHE.toBytes32(position.pendingWithdrawal) != handle) {
             revert InvalidProof();
         }
 
-        bytes32[] memory handles = new bytes32[](1);
-        handles[0] = handle;
-        bytes memory cleartextBytes = abi.encode(clearAmount);
+        _checkDecryption(handle, clearAmount, decryptionProof);
 
-        FHE.checkSignatures(handles, cleartextBytes, decryptionProof);
+        _settleWithdrawal(owner, fullExit, clearAmount);
+        $.withdrawalOwner[handle] = address(0);
 
-        position.encryptedAmount = FHE.asEuint64(0);
-        position.plainAmount = 0;
-        position.lastAccrual = block.timestamp;
-        _withdrawalOwner[handle] = address(0);
+        _payout(owner, clearAmount);
+
+        emit WithdrawalFinalized(owner, clearAmount);
+    }
+
+    /// @notice Hands the caller's encrypted position to the approved successor vault without disclosing it.
+    /// @dev Rewards are checkpointed first and travel with the position, as does its lock; any unstaked vault
+    /// balance is folded into the stake. The ETH stays here until the successor draws it to pay a withdrawal.
+    function migratePosition() external nonReentrant {
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        address successorVault = $.successor;
+        if (successorVault == address(0)) {
+            revert NoSuccessor();
+        }
+
+        StakePosition storage position = $.stakes[msg.sender];
+        if (position.plainAmount == 0 && !position.confidential) {
+            revert NoStake();
+        }
+        if (_withdrawalPending(position)) {
+            revert WithdrawInProgress();
+        }
+
+        _updateRewards(msg.sender);
+        _foldDepositBalance(msg.sender);
 
-        (bool sent, ) = payable(owner).call{value: clearAmount}("");
+        MigratedPosition memory migrated = MigratedPosition({
+            encryptedAmount: position.encryptedAmount,
+            accruedRewards: position.accruedRewards,
+            plainAmount: position.plainAmount,
+            lastAccrual: position.lastAccrual,
+            lockEnd: position.lockEnd,
+            lockTier: position.lockTier,
+            confidential: position.confidential,
+            lockedAmount: position.lockedAmount
+        });
+        FHE.allow(migrated.encryptedAmount, successorVault);
+        euint128 principal = FHE.asEuint128(migrated.encryptedAmount);
+        euint128 reserves = $.migratedReserves[successorVault];
+        reserves = FHE.isInitialized(reserves) ? FHE.add(reserves, principal) : principal;
+        FHE.allowThis(reserves);
+        $.migratedReserves[successorVault] = reserves;
+        $.undisclosedMigrations[successorVault]++;
+        if (FHE.isInitialized(migrated.accruedRewards)) {
+            FHE.allow(migrated.accruedRewards, successorVault);
+        }
+        if (FHE.isInitialized(migrated.lockedAmount)) {
+            FHE.allow(migrated.lockedAmount, successorVault);
+        }
+        delete $.stakes[msg.sender];
+        _syncReceipt(msg.sender);
+
+        SecretRate(payable(successorVault)).acceptMigratedPosition(msg.sender, migrated);
+
+        emit PositionMigrated(msg.sender, successorVault, migrated.encryptedAmount);
+    }
+
+    /// @notice Takes over a position migrated from the predecessor vault, merging it into any position the user
+    /// already holds here.
+    /// @dev The predecessor allowed the handles to this vault and the user can already decrypt them. The predecessor
+    /// checkpointed the rewards, so accrual continues from now at this vault's rate. The merged position keeps the
+    /// later of the two locks, and the locked stake of both stays locked and boosted until then.
+    /// @param user The staker.
+    /// @param migrated The position, with its handles allowed to this vault.
+    function acceptMigratedPosition(address user, MigratedPosition calldata migrated) external nonReentrant {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (msg.sender != $.predecessor) {
+            revert NotPredecessor(msg.sender);
+        }
+
+        StakePosition storage position = $.stakes[user];
+        if (_withdrawalPending(position)) {
+            revert WithdrawInProgress();
+        }
+        _updateRewards(user);
+
+        position.encryptedAmount = _merge(user, position.encryptedAmount, migrated.encryptedAmount);
+        if (FHE.isInitialized(migrated.accruedRewards)) {
+            position.accruedRewards = _merge(user, position.accruedRewards, migrated.accruedRewards);
+        }
+        if (FHE.isInitialized(migrated.lockedAmount)) {
+            _addLocked(user, migrated.lockedAmount);
+        }
+        position.plainAmount += migrated.plainAmount;
+        if (migrated.lockEnd > position.lockEnd) {
+            position.lockEnd = migrated.lockEnd;
+            position.lockTier = migrated.lockTier;
+        }
+        position.confidential = position.confidential || migrated.confidential;
+        _syncReceipt(user);
+
+        emit PositionReceived(user, msg.sender, migrated.encryptedAmount);
+    }
+
+    /// @notice Makes the principal migrated to `successorVault` since the last disclosure publicly decryptable, so
+    /// `settleReserves` can set that much ETH aside for it.
+    /// @dev Only a total covering at least `MIN_RESERVE_DISCLOSURE` migrations is disclosed, so it never reveals a
+    /// single position. Until that many have accumulated, the successor pays migrated withdrawals from its own ETH.
+    /// @param successorVault The successor vault.
+    function discloseReserves(address successorVault) external onlyOwner {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (FHE.isInitialized($.disclosedReserves[successorVault])) {
+            revert DisclosurePending();
+        }
+        uint256 migrations = $.undisclosedMigrations[successorVault];
+        if (migrations < MIN_RESERVE_DISCLOSURE) {
+            revert TooFewMigrations(migrations);
+        }
+
+        euint128 migrated = $.migratedReserves[successorVault];
+        FHE.makePubliclyDecryptable(migrated);
+        $.disclosedReserves[successorVault] = migrated;
+        $.migratedReserves[successorVault] = euint128.wrap(0);
+        $.undisclosedMigrations[successorVault] = 0;
+
+        emit ReservesDisclosed(successorVault, FHE.toBytes32(migrated));
+    }
+
+    /// @notice Adds the total disclosed by `discloseReserves` to what `successorVault` can draw.
+    /// @param successorVault The successor vault.
+    /// @param clearAmount The decrypted total of `disclosedReserves(successorVault)`.
+    /// @param decryptionProof The public decryption proof for it.
+    function settleReserves(address successorVault, uint128 clearAmount, bytes calldata decryptionProof) external {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint128 disclosed = $.disclosedReserves[successorVault];
+        if (!FHE.isInitialized(disclosed)) {
+            revert NotDisclosed();
+        }
+
+        _checkDecryption(FHE.toBytes32(disclosed), clearAmount, decryptionProof);
+
+        $.disclosedReserves[successorVault] = euint128.wrap(0);
+        $.reserveAllowance[successorVault] += clearAmount;
+
+        emit ReservesSettled(successorVault, clearAmount);
+    }
+
+    /// @notice Sends the caller ETH backing positions migrated to it, up to its settled reserves.
+    /// @dev The successor only draws what it is short of when paying out a disclosed withdrawal.
+    /// @param amount The wei to send.
+    function releaseReserves(uint256 amount) external nonReentrant {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        uint256 available = $.reserveAllowance[msg.sender];
+        if (amount > available) {
+            revert InsufficientReserves(available);
+        }
+        $.reserveAllowance[msg.sender] = available - amount;
+
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
         require(sent, "ETH transfer failed");
 
-        emit WithdrawalFinalized(owner, clearAmount);
+        emit ReservesReleased(msg.sender, amount);
+    }
+
+    /// @notice Moves the stake behind a csETH transfer, and the yield it earns from now on, to the recipient.
+    /// @dev Called by the receipt token after each transfer with the transferred shares, which it allowed to this
+    /// vault. Reverts, and with it the transfer, while the sender's stake is locked or either side has a withdraw
+    /// pending. Stake received into a locked position is locked, and boosted, with it. The sender's public amount
+    /// is cleared since it no longer bounds the stake.
+    /// @param from The csETH sender.
+    /// @param to The csETH recipient.
+    /// @param shares The encrypted csETH shares transferred.
+    function onReceiptTransfer(address from, address to, euint64 shares) external nonReentrant {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        if (msg.sender != address($.receiptToken)) {
+            revert NotReceiptToken(msg.sender);
+        }
+
+        StakePosition storage sender = $.stakes[from];
+        StakePosition storage recipient = $.stakes[to];
+        if (block.timestamp < sender.lockEnd) {
+            revert StakeLocked(sender.lockEnd);
+        }
+        if (_withdrawalPending(sender) || _withdrawalPending(recipient)) {
+            revert WithdrawInProgress();
+        }
+
+        _updateRewards(from);
+        _updateRewards(to);
+
+        euint64 moved = FHE.mul(shares, ConfidentialStakedETH(msg.sender).ASSETS_PER_SHARE());
+        sender.encryptedAmount = FHE.sub(sender.encryptedAmount, moved);
+        FHE.allowThis(sender.encryptedAmount);
+        FHE.allow(sender.encryptedAmount, from);
+        recipient.encryptedAmount = _merge(to, recipient.encryptedAmount, moved);
+        FHE.allow(moved, from);
+        FHE.allow(moved, to);
+        if (block.timestamp < recipient.lockEnd) {
+            _addLocked(to, moved);
+        }
+
+        sender.plainAmount = 0;
+        sender.confidential = true;
+        recipient.confidential = true;
+
+        emit StakeTransferred(from, to, moved);
+    }
+
+    /// @notice Returns the cUSDT token the yield is minted in.
+    /// @return The cUSDT token.
+    function cusdt() external view returns (ConfidentialUSDT) {
+        return _getSecretRateStorage().cusdt;
+    }
+
+    /// @notice Returns the cUSDT base units streamed per staked ETH per day.
+    /// @return The reward rate.
+    function rewardRate() external view returns (uint256) {
+        return _getSecretRateStorage().rewardRate;
+    }
+
+    /// @notice Returns the account that can pause the vault alongside the owner.
+    /// @return The guardian.
+    function guardian() external view returns (address) {
+        return _getSecretRateStorage().guardian;
+    }
+
+    /// @notice Returns the bitmask of the `PAUSE_*` scopes that are currently paused.
+    /// @return The paused scopes.
+    function pausedScopes() external view returns (uint8) {
+        return _getSecretRateStorage().pausedScopes;
+    }
+
+    /// @notice Returns the vault positions can be migrated to, or the zero address.
+    /// @return The successor vault.
+    function successor() external view returns (address) {
+        return _getSecretRateStorage().successor;
+    }
+
+    /// @notice Returns the ETH `successorVault` can still draw with `releaseReserves`.
+    /// @param successorVault The successor vault.
+    /// @return The wei it can draw.
+    function reserveAllowance(address successorVault) external view returns (uint256) {
+        return _getSecretRateStorage().reserveAllowance[successorVault];
+    }
+
+    /// @notice Returns the migrated total disclosed for `settleReserves`, or the zero handle.
+    /// @param successorVault The successor vault.
+    /// @return The disclosed handle.
+    function disclosedReserves(address successorVault) external view returns (euint128) {
+        return _getSecretRateStorage().disclosedReserves[successorVault];
+    }
+
+    /// @notice Returns the vault positions are migrated from, or the zero address.
+    /// @return The predecessor vault.
+    function predecessor() external view returns (address) {
+        return _getSecretRateStorage().predecessor;
+    }
+
+    /// @notice Returns the share vault swept yield is deposited into, or the zero address.
+    /// @return The share vault.
+    function shareVault() external view returns (ConfidentialShareVault) {
+        return _getSecretRateStorage().shareVault;
+    }
+
+    /// @notice Returns the csETH receipt token mirroring the stakes, or the zero address.
+    /// @return The csETH token.
+    function receiptToken() external view returns (ConfidentialStakedETH) {
+        return _getSecretRateStorage().receiptToken;
+    }
+
+    /// @notice Returns whether `user` has opted into sweeping their yield into the share vault.
+    /// @param user The staker.
+    /// @return Whether their yield is swept.
+    function autoSweepEnabled(address user) external view returns (bool) {
+        return _getSecretRateStorage().stakes[user].autoSweep;
     }
 
     /// @notice Returns the encrypted stake for a user.
+    /// @param user The staker.
+    /// @return The encrypted stake, decryptable by the user.
     function getEncryptedStake(address user) external view returns (euint64) {
-        return _stakes[user].encryptedAmount;
+        return _getSecretRateStorage().stakes[user].encryptedAmount;
     }
 
-    /// @notice Returns the plain stake and stored rewards for a user.
-    function stakeDetails(address user) external view returns (uint256 plainAmount, uint256 accruedRewards, uint256 lastAccrual) {
-        StakePosition storage position = _stakes[user];
-        return (position.plainAmount, position.accruedRewards, position.lastAccrual);
+    /// @notice Returns the publicly staked amount, last accrual time and lock state for a user.
+    /// @dev `lockTier` is reset to 0 on the first interaction after `lockEnd`.
+    /// @param user The staker.
+    /// @return plainAmount The publicly staked wei.
+    /// @return lastAccrual When rewards were last checkpointed.
+    /// @return lockEnd When the lock ends, or a past time.
+    /// @return lockTier The lock tier.
+    function stakeDetails(
+        address user
+    ) external view returns (uint256 plainAmount, uint256 lastAccrual, uint256 lockEnd, uint8 lockTier) {
+        StakePosition storage position = _getSecretRateStorage().stakes[user];
+        return (position.plainAmount, position.lastAccrual, position.lockEnd, position.lockTier);
     }
 
-    /// @notice Returns pending rewards including in-flight accruals.
-    function pendingRewards(address user) external view returns (uint256) {
-        StakePosition storage position = _stakes[user];
-        if (position.plainAmount == 0 || position.lastAccrual == 0) {
-            return position.accruedRewards;
-        }
+    /// @notice Returns the encrypted counterparts of `stakeDetails` for a user.
+    /// @param user The staker.
+    /// @return encryptedAmount The encrypted stake.
+    /// @return depositBalance The encrypted vault balance not staked yet.
+    /// @return accruedRewards The encrypted rewards accrued up to `lastAccrual`.
+    /// @return lastAccrual When rewards were last checkpointed.
+    function encryptedStakeDetails(
+        address user
+    )
+        external
+        view
+        returns (euint64 encryptedAmount, euint64 depositBalance, euint64 accruedRewards, uint256 lastAccrual)
+    {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        return (position.encryptedAmount, $.depositBalance[user], position.accruedRewards, position.lastAccrual);
+    }
 
-        uint256 elapsed = block.timestamp - position.lastAccrual;
-        if (elapsed == 0) {
-            return position.accruedRewards;
+    /// @notice Returns the encrypted rewards accrued up to `lastAccrual`.
+    /// @dev Call `checkpointRewards` first to include in-flight yield; the handle is decryptable by the user.
+    /// @param user The staker.
+    /// @return The encrypted accrued rewards.
+    function getEncryptedPendingRewards(address user) external view returns (euint64) {
+        return _getSecretRateStorage().stakes[user].accruedRewards;
+    }
+
+    /// @notice Returns the encrypted total of forfeited early-exit penalties, decryptable by the owner.
+    /// @return The encrypted penalty total.
+    function forfeitedPenalties() external view returns (euint64) {
+        return _getSecretRateStorage().forfeitedPenalties;
+    }
+
+    /// @notice Returns the penalty total disclosed for `claimPenalties`, or the zero handle.
+    /// @return The disclosed handle.
+    function disclosedPenalties() external view returns (euint64) {
+        return _getSecretRateStorage().disclosedPenalties;
+    }
+
+    /// @notice Returns whether `spender` may claim and start withdrawals for `holder`.
+    /// @param holder The staker.
+    /// @param spender The account acting for them.
+    /// @return Whether it may.
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _getSecretRateStorage().operators[holder][spender];
+    }
+
+    /// @notice Returns the lock duration and reward multiplier, in basis points, of a lock tier.
+    /// @dev Tier 0 is the unlocked default; tiers 1 to 3 lock for 30, 90 and 180 days.
+    /// @param lockTier The lock tier.
+    /// @return duration How long the lock lasts.
+    /// @return boostBps The reward multiplier of the locked stake.
+    function lockTierTerms(uint8 lockTier) public pure returns (uint256 duration, uint256 boostBps) {
+        if (lockTier == 0) {
+            return (0, BPS);
+        }
+        if (lockTier == 1) {
+            return (30 days, 12_500);
         }
+        if (lockTier == 2) {
+            return (90 days, 15_000);
+        }
+        if (lockTier == 3) {
+            return (180 days, 20_000);
+        }
+        revert InvalidLockTier(lockTier);
+    }
 
-        uint256 liveReward = (position.plainAmount * REWARD_PER_ETH_PER_DAY * elapsed) /
-            (1 ether * SECONDS_PER_DAY);
-        return position.accruedRewards + liveReward;
+    /// @notice Returns the accumulated `rewardRate * seconds` since deployment, unscaled.
+    /// @dev A position earns `stake * (rewardPerToken() - rewardPerTokenPaid) / (1 ether * 1 days)` cUSDT units.
+    /// @return The accumulator.
+    function rewardPerToken() public view returns (uint256) {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        return $.rewardPerTokenStored + $.rewardRate * (block.timestamp - $.lastRateUpdate);
     }
 
-    /// @notice Returns the encrypted handle currently tied to a withdraw request.
+    /// @notice Returns the encrypted handle currently tied to a full or partial withdraw request.
+    /// @param user The staker.
+    /// @return The handle, or zero without a pending request.
     function withdrawalHandle(address user) external view returns (bytes32) {
-        bytes32 handle = FHE.toBytes32(_stakes[user].encryptedAmount);
-        if (_withdrawalOwner[handle] == user) {
-            return handle;
+        return _pendingWithdrawalHandle(user);
+    }
+
+    /// @notice Returns when the user's pending withdraw request becomes cancellable, or 0 without one.
+    /// @param user The staker.
+    /// @return The expiry timestamp.
+    function withdrawalExpiry(address user) external view returns (uint256) {
+        uint256 requestedAt = _getSecretRateStorage().stakes[user].withdrawRequestedAt;
+        return requestedAt == 0 ? 0 : requestedAt + WITHDRAWAL_TIMEOUT;
+    }
+
+    /// @notice Stakes `msg.value` into `user`'s position, locking it for `lockTier` when non-zero.
+    /// @param user The position to stake into.
+    /// @param lockTier The lock tier, or 0.
+    function _stake(address user, uint8 lockTier) private {
+        _requireNotPaused(PAUSE_DEPOSITS);
+        if (msg.value == 0) {
+            revert NoStake();
         }
-        return bytes32(0);
+        if (msg.value > type(uint64).max) {
+            revert RewardTooLarge();
+        }
+
+        _updateRewards(user);
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        bytes32 currentHandle = FHE.toBytes32(position.encryptedAmount);
+        if ($.withdrawalOwner[currentHandle] != address(0)) {
+            revert WithdrawInProgress();
+        }
+
+        euint64 current = position.encryptedAmount;
+        if (!FHE.isInitialized(current)) {
+            current = FHE.asEuint64(0);
+        }
+
+        euint64 stakedAmount = FHE.asEuint64(uint64(msg.value));
+        euint64 updated = FHE.add(current, stakedAmount);
+
+        FHE.allowThis(updated);
+        FHE.allow(updated, user);
+
+        position.encryptedAmount = updated;
+        position.plainAmount += msg.value;
+        if (lockTier != 0) {
+            _applyLock(user, lockTier, stakedAmount);
+        }
+        _syncReceipt(user);
+
+        emit Staked(user, msg.value, updated);
+    }
+
+    /// @notice Deposits `msg.value`, then stakes the encrypted amount from the caller's vault balance.
+    /// @param encryptedAmount The encrypted amount of wei to stake.
+    /// @param inputProof The input proof for `encryptedAmount`.
+    /// @param lockTier The lock tier, or 0.
+    function _stakeEncrypted(externalEuint64 encryptedAmount, bytes calldata inputProof, uint8 lockTier) private {
+        _requireNotPaused(PAUSE_DEPOSITS);
+        if (msg.value > 0) {
+            _deposit(msg.sender, msg.value);
+        }
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint64 balance = $.depositBalance[msg.sender];
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+        }
+
+        euint64 remaining = _stakeFromBalance(msg.sender, FHE.fromExternal(encryptedAmount, inputProof), balance);
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, msg.sender);
+        $.depositBalance[msg.sender] = remaining;
+        if (lockTier != 0) {
+            _applyLock(msg.sender, lockTier, FHE.sub(balance, remaining));
+        }
+
+        emit StakedEncrypted(msg.sender, $.stakes[msg.sender].encryptedAmount);
     }
 
+    /// @notice Moves `requested` from `balance` into `user`'s stake if the balance covers it, and nothing otherwise.
+    /// Returns the rest of the balance without granting access to it.
+    /// @param user The position to stake into.
+    /// @param requested The encrypted amount to stake.
+    /// @param balance The encrypted balance it is taken from.
+    /// @return The encrypted balance left.
+    function _stakeFromBalance(address user, euint64 requested, euint64 balance) private returns (euint64) {
+        _updateRewards(user);
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        if ($.withdrawalOwner[FHE.toBytes32(position.encryptedAmount)] != address(0)) {
+            revert WithdrawInProgress();
+        }
+
+        euint64 current = position.encryptedAmount;
+        if (!FHE.isInitialized(current)) {
+            current = FHE.asEuint64(0);
+        }
+
+        ebool covered = FHE.le(requested, balance);
+        euint64 moved = FHE.select(covered, requested, FHE.asEuint64(0));
+        euint64 updated = FHE.add(current, moved);
+
+        FHE.allowThis(updated);
+        FHE.allow(updated, user);
+
+        position.encryptedAmount = updated;
+        position.confidential = true;
+        _syncReceipt(user);
+
+        return FHE.sub(balance, moved);
+    }
+
+    /// @notice Mints the accrued rewards to `user`, or into the share vault on their behalf when they auto-sweep.
+    /// @param user The staker.
+    function _claim(address user) private {
+        _requireNotPaused(PAUSE_CLAIMS);
+        _updateRewards(user);
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        euint64 reward = position.accruedRewards;
+        if (!FHE.isInitialized(reward)) {
+            return;
+        }
+
+        FHE.allowTransient(reward, address($.cusdt));
+        euint64 minted;
+        if (position.autoSweep && address($.shareVault) != address(0)) {
+            minted = $.cusdt.mintEncrypted(address(this), reward);
+            $.cusdt.confidentialTransferAndCall(address($.shareVault), minted, abi.encode(user));
+            emit YieldSwept(user, minted);
+        } else {
+            minted = $.cusdt.mintEncrypted(user, reward);
+            emit InterestClaimed(user, minted);
+        }
+
+        position.accruedRewards = FHE.sub(reward, minted);
+        FHE.allowThis(position.accruedRewards);
+        FHE.allow(position.accruedRewards, user);
+    }
+
+    /// @notice Accrues the yield earned since the last checkpoint and ends an expired lock.
+    /// @param user The staker.
     function _updateRewards(address user) private {
-        StakePosition storage position = _stakes[user];
+        StakePosition storage position = _getSecretRateStorage().stakes[user];
+        uint256 accumulated = rewardPerToken();
 
-        if (position.lastAccrual == 0) {
-            position.lastAccrual = block.timestamp;
+        if (position.lastAccrual != 0) {
+            uint256 earned = accumulated - position.rewardPerTokenPaid;
+            if (earned != 0 && FHE.isInitialized(position.encryptedAmount)) {
+                _accrueRewards(user, earned, _lockBonus(position, earned));
+            }
+        }
+
+        position.rewardPerTokenPaid = accumulated;
+        position.lastAccrual = block.timestamp;
+        if (position.lockTier != 0 && position.lockEnd <= block.timestamp) {
+            position.lockTier = 0;
+            position.lockedAmount = euint64.wrap(0);
+        }
+    }
+
+    /// @notice Returns the extra accumulator delta the locked stake earns on top of the base one. When the lock ended
+    /// during the period only the locked share of it is boosted, split by time.
+    /// @param position The position.
+    /// @param rewardPerTokenDelta The base accumulator delta.
+    /// @return The bonus accumulator delta.
+    function _lockBonus(StakePosition storage position, uint256 rewardPerTokenDelta) private view returns (uint256) {
+        if (position.lockTier == 0) {
+            return 0;
+        }
+
+        (, uint256 boostBps) = lockTierTerms(position.lockTier);
+        uint256 lockedDelta = rewardPerTokenDelta;
+        if (position.lockEnd < block.timestamp) {
+            lockedDelta =
+                (rewardPerTokenDelta * (position.lockEnd - position.lastAccrual)) /
+                (block.timestamp - position.lastAccrual);
+        }
+        return (lockedDelta * (boostBps - BPS)) / BPS;
+    }
+
+    /// @notice Locks the position until the end of `lockTier` and adds `amount` to the stake it boosts.
+    /// @param user The staker.
+    /// @param lockTier The lock tier.
+    /// @param amount The encrypted stake added to the locked amount.
+    function _applyLock(address user, uint8 lockTier, euint64 amount) private {
+        (uint256 duration, ) = lockTierTerms(lockTier);
+        StakePosition storage position = _getSecretRateStorage().stakes[user];
+        uint256 lockEnd = block.timestamp + duration;
+        if (lockEnd < position.lockEnd) {
+            revert LockShortened(position.lockEnd);
+        }
+
+        position.lockEnd = lockEnd;
+        position.lockTier = lockTier;
+        _addLocked(user, amount);
+
+        emit Locked(user, lockTier, lockEnd);
+    }
+
+    /// @notice Returns `current + added`, or `added` while `current` is unset, allowed to this vault and `user`.
+    /// @param user The staker.
+    /// @param current The current handle, possibly unset.
+    /// @param added The handle to add.
+    /// @return The merged handle.
+    function _merge(address user, euint64 current, euint64 added) private returns (euint64) {
+        euint64 merged = FHE.isInitialized(current) ? FHE.add(current, added) : added;
+        FHE.allowThis(merged);
+        FHE.allow(merged, user);
+        return merged;
+    }
+
+    /// @notice Adds `amount` to the locked stake of `user`.
+    /// @param user The staker.
+    /// @param amount The encrypted stake to lock.
+    function _addLocked(address user, euint64 amount) private {
+        StakePosition storage position = _getSecretRateStorage().stakes[user];
+        position.lockedAmount = _merge(user, position.lockedAmount, amount);
+    }
+
+    /// @notice Discloses the whole position of `user` for a full withdraw.
+    /// @dev Without `early` an active lock reverts; with it the lock is ended with the early-exit penalty.
+    /// @param user The staker.
+    /// @param early Whether to leave an active lock with the penalty.
+    function _requestWithdraw(address user, bool early) private {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        if (!early && block.timestamp < position.lockEnd) {
+            revert StakeLocked(position.lockEnd);
+        }
+        if (position.plainAmount == 0 && !position.confidential) {
+            revert NoStake();
+        }
+
+        _updateRewards(user);
+
+        if (_withdrawalPending(position)) {
+            revert WithdrawInProgress();
+        }
+        if (block.timestamp < position.lockEnd) {
+            _applyEarlyExitPenalty(user);
+        }
+        _foldDepositBalance(user);
+
+        bytes32 handle = FHE.toBytes32(position.encryptedAmount);
+        $.withdrawalOwner[handle] = user;
+        position.withdrawRequestedAt = block.timestamp;
+        FHE.makePubliclyDecryptable(position.encryptedAmount);
+        _syncReceipt(user);
+
+        emit WithdrawalRequested(user, position.plainAmount, handle);
+    }
+
+    /// @notice Moves what the stake covers of `requested` into the pending withdrawal and discloses only that.
+    /// @param user The staker.
+    /// @param requested The encrypted amount to withdraw.
+    function _requestPartialWithdraw(address user, euint64 requested) private {
+        _requireNotPaused(PAUSE_WITHDRAWALS);
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        if (!FHE.isInitialized(position.encryptedAmount)) {
+            revert NoStake();
+        }
+        if (block.timestamp < position.lockEnd) {
+            revert StakeLocked(position.lockEnd);
+        }
+        if (_withdrawalPending(position)) {
+            revert WithdrawInProgress();
+        }
+
+        _updateRewards(user);
+
+        ebool covered = FHE.le(requested, position.encryptedAmount);
+        euint64 withdrawable = FHE.select(covered, requested, FHE.asEuint64(0));
+        euint64 remaining = FHE.sub(position.encryptedAmount, withdrawable);
+
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, user);
+        FHE.allowThis(withdrawable);
+        FHE.allow(withdrawable, user);
+        FHE.makePubliclyDecryptable(withdrawable);
+
+        position.encryptedAmount = remaining;
+        position.pendingWithdrawal = withdrawable;
+        position.withdrawRequestedAt = block.timestamp;
+
+        bytes32 handle = FHE.toBytes32(withdrawable);
+        $.withdrawalOwner[handle] = user;
+        _syncReceipt(user);
+
+        emit PartialWithdrawalRequested(user, handle);
+    }
+
+    /// @notice Moves the unstaked vault balance into the encrypted stake.
+    /// @param user The staker.
+    function _foldDepositBalance(address user) private {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint64 balance = $.depositBalance[user];
+        if (!FHE.isInitialized(balance)) {
             return;
         }
 
-        if (position.plainAmount == 0) {
-            position.lastAccrual = block.timestamp;
+        StakePosition storage position = $.stakes[user];
+        position.encryptedAmount = _merge(user, position.encryptedAmount, balance);
+        $.depositBalance[user] = euint64.wrap(0);
+    }
+
+    /// @notice Sets the user's csETH to their transferable stake in whole shares. A stake disclosed for a full exit is
+    /// no longer transferable, so its receipt is burned; a cancelled exit gets it back.
+    /// @param user The staker.
+    function _syncReceipt(address user) private {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        ConfidentialStakedETH receipt = $.receiptToken;
+        if (address(receipt) == address(0)) {
             return;
         }
 
-        uint256 elapsed = block.timestamp - position.lastAccrual;
-        if (elapsed == 0) {
+        euint64 stakeAmount = $.stakes[user].encryptedAmount;
+        euint64 shares = FHE.isInitialized(stakeAmount) && $.withdrawalOwner[FHE.toBytes32(stakeAmount)] == address(0)
+            ? FHE.div(stakeAmount, receipt.ASSETS_PER_SHARE())
+            : FHE.asEuint64(0);
+        FHE.allowTransient(shares, address(receipt));
+        receipt.syncShares(user, shares);
+    }
+
+    /// @notice Takes the penalty on the locked stake out of the encrypted stake and ends the lock. The public portion
+    /// is reduced by the penalty rate, so it stays a lower bound of the amount that will be disclosed.
+    /// @param user The staker.
+    function _applyEarlyExitPenalty(address user) private {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+
+        euint128 scaled = FHE.mul(FHE.asEuint128(position.lockedAmount), uint128(EARLY_EXIT_PENALTY_BPS));
+        euint64 penalty = FHE.asEuint64(FHE.div(scaled, uint128(BPS)));
+        euint64 remaining = FHE.sub(position.encryptedAmount, penalty);
+        euint64 forfeited = FHE.isInitialized($.forfeitedPenalties) ? FHE.add($.forfeitedPenalties, penalty) : penalty;
+
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, user);
+        FHE.allow(penalty, user);
+        FHE.allowThis(forfeited);
+        FHE.allow(forfeited, owner());
+
+        position.encryptedAmount = remaining;
+        position.plainAmount -= (position.plainAmount * EARLY_EXIT_PENALTY_BPS) / BPS;
+        position.lockEnd = block.timestamp;
+        position.lockTier = 0;
+        position.lockedAmount = euint64.wrap(0);
+        $.forfeitedPenalties = forfeited;
+
+        emit EarlyExitPenalized(user, penalty);
+    }
+
+    /// @notice Accrues yield on the encrypted stake, plus `lockBonusDelta` on the locked part of it, widening to 128
+    /// bits so the products cannot overflow.
+    /// @param user The staker.
+    /// @param rewardPerTokenDelta The base accumulator delta.
+    /// @param lockBonusDelta The extra accumulator delta of the locked stake.
+    function _accrueRewards(address user, uint256 rewardPerTokenDelta, uint256 lockBonusDelta) private {
+        StakePosition storage position = _getSecretRateStorage().stakes[user];
+
+        euint128 scaled = FHE.mul(FHE.asEuint128(position.encryptedAmount), uint128(rewardPerTokenDelta));
+        if (lockBonusDelta != 0) {
+            scaled = FHE.add(scaled, FHE.mul(FHE.asEuint128(position.lockedAmount), uint128(lockBonusDelta)));
+        }
+        euint64 reward = FHE.asEuint64(FHE.div(scaled, uint128(1 ether * SECONDS_PER_DAY)));
+
+        position.accruedRewards = _merge(user, position.accruedRewards, reward);
+    }
+
+    /// @notice Clears the withdraw of `owner` that was just paid out.
+    /// @dev A full exit leaves a fresh zero stake allowed to the vault and the owner: without the grant the next
+    /// stake could not add to it, and the owner could not decrypt the empty position.
+    /// @param owner The staker.
+    /// @param fullExit Whether the whole position was withdrawn.
+    /// @param clearAmount The wei paid.
+    function _settleWithdrawal(address owner, bool fullExit, uint64 clearAmount) private {
+        StakePosition storage position = _getSecretRateStorage().stakes[owner];
+        position.withdrawRequestedAt = 0;
+        if (fullExit) {
+            position.encryptedAmount = FHE.asEuint64(0);
+            FHE.allowThis(position.encryptedAmount);
+            FHE.allow(position.encryptedAmount, owner);
+            position.plainAmount = 0;
+            position.confidential = false;
+            position.emergencyExit = false;
+            position.lastAccrual = block.timestamp;
+            position.rewardPerTokenPaid = rewardPerToken();
             return;
         }
 
-        uint256 reward = (position.plainAmount * REWARD_PER_ETH_PER_DAY * elapsed) / (1 ether * SECONDS_PER_DAY);
-        position.accruedRewards += reward;
-        position.lastAccrual = block.timestamp;
+        // The publicly staked portion is treated as leaving first.
+        position.pendingWithdrawal = euint64.wrap(0);
+        position.emergencyExit = false;
+        position.plainAmount -= clearAmount < position.plainAmount ? clearAmount : position.plainAmount;
+    }
+
+    /// @notice Sends `amount` wei to `to`.
+    /// @dev Draws any shortfall from the predecessor, which still holds the ETH of positions migrated here.
+    /// @param to The recipient.
+    /// @param amount The wei to send.
+    function _payout(address to, uint256 amount) private {
+        address predecessorVault = _getSecretRateStorage().predecessor;
+        if (address(this).balance < amount && predecessorVault != address(0)) {
+            SecretRate(payable(predecessorVault)).releaseReserves(amount - address(this).balance);
+        }
+
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+    }
+
+    /// @notice Reverts unless `decryptionProof` proves `clearAmount` is the public decryption of `handle`.
+    /// @param handle The disclosed handle.
+    /// @param clearAmount The decrypted value.
+    /// @param decryptionProof The public decryption proof.
+    function _checkDecryption(bytes32 handle, uint256 clearAmount, bytes calldata decryptionProof) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, abi.encode(clearAmount), decryptionProof);
+    }
+
+    /// @notice Reverts while `scope` is paused.
+    /// @param scope The `PAUSE_*` scope.
+    function _requireNotPaused(uint8 scope) private view {
+        if (_getSecretRateStorage().pausedScopes & scope != 0) {
+            revert VaultPaused(scope);
+        }
+    }
+
+    /// @notice Consumes the staker's nonce, so a signature can be used once and only until `deadline`.
+    /// @param typehash The type hash of the signed action.
+    /// @param staker The signer.
+    /// @param deadline When the signature expires.
+    /// @param signature The signature.
+    function _useSignature(bytes32 typehash, address staker, uint256 deadline, bytes calldata signature) private {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(typehash, staker, _useNonce(staker), deadline)));
+        if (!SignatureChecker.isValidSignatureNow(staker, digest, signature)) {
+            revert InvalidSignature();
+        }
+    }
+
+    /// @notice Reverts unless the caller is `holder` or one of its operators.
+    /// @param holder The staker.
+    function _requireOperator(address holder) private view {
+        if (!isOperator(holder, msg.sender)) {
+            revert NotOperator(holder, msg.sender);
+        }
+    }
+
+    /// @notice Returns whether a full or partial withdraw of `position` is pending.
+    /// @param position The position.
+    /// @return Whether one is pending.
+    function _withdrawalPending(StakePosition storage position) private view returns (bool) {
+        return
+            _getSecretRateStorage().withdrawalOwner[FHE.toBytes32(position.encryptedAmount)] != address(0) ||
+            FHE.isInitialized(position.pendingWithdrawal);
+    }
+
+    /// @notice Returns the handle of `user`'s pending withdraw.
+    /// @param user The staker.
+    /// @return The handle, or zero without one.
+    function _pendingWithdrawalHandle(address user) private view returns (bytes32) {
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        StakePosition storage position = $.stakes[user];
+        bytes32 handle = FHE.toBytes32(position.encryptedAmount);
+        if ($.withdrawalOwner[handle] == user) {
+            return handle;
+        }
+        handle = FHE.toBytes32(position.pendingWithdrawal);
+        if ($.withdrawalOwner[handle] == user) {
+            return handle;
+        }
+        return bytes32(0);
+    }
+
+    /// @notice Adds `amount` to `user`'s encrypted vault balance.
+    /// @param user The depositor.
+    /// @param amount The wei deposited.
+    function _deposit(address user, uint256 amount) private {
+        if (amount == 0 || amount % DEPOSIT_DENOMINATION != 0) {
+            revert InvalidDenomination();
+        }
+        if (amount > type(uint64).max) {
+            revert RewardTooLarge();
+        }
+
+        SecretRateStorage storage $ = _getSecretRateStorage();
+        euint64 balance = $.depositBalance[user];
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+        }
+
+        euint64 updated = FHE.add(balance, uint64(amount));
+        FHE.allowThis(updated);
+        FHE.allow(updated, user);
+
+        $.depositBalance[user] = updated;
+        $.stakes[user].confidential = true;
+
+        emit Deposited(user, amount, updated);
+    }
+
+    /// @notice Returns the EIP-712 domain name, fixed so proxies initialized before signing existed work.
+    /// @return The domain name.
+    function _EIP712Name() internal pure override returns (string memory) {
+        return EIP712_NAME;
+    }
+
+    /// @notice Returns the EIP-712 domain version.
+    /// @return The domain version.
+    function _EIP712Version() internal pure override returns (string memory) {
+        return EIP712_VERSION;
+    }
+
+    /// @notice Only the owner can upgrade the vault.
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    /// @notice Returns the namespaced storage of the vault.
+    /// @return $ The storage struct at `SECRET_RATE_STORAGE_LOCATION`.
+    function _getSecretRateStorage() private pure returns (SecretRateStorage storage $) {
+        assembly {
+            $.slot := SECRET_RATE_STORAGE_LOCATION
+        }
     }
 }
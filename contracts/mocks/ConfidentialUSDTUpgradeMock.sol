@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ConfidentialUSDT} from "../ConfidentialUSDT.sol";
+
+/// @title ConfidentialUSDTUpgradeMock
+/// @notice Upgrade target for tests: keeps the storage layout and adds a function to tell the upgrade happened.
+contract ConfidentialUSDTUpgradeMock is ConfidentialUSDT {
+    /// @notice Returns the version of this implementation.
+    /// @return Always 2.
+    function upgradeVersion() external pure returns (uint256) {
+        return 2;
+    }
+}
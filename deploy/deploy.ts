@@ -1,29 +1,103 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+// cUSDT has 6 decimals.
+const INITIAL_REWARD_BUDGET = 1_000_000n * 10n ** 6n;
+const EPOCH_EMISSION_CAP = 50_000n * 10n ** 6n;
+// The vault is bounded by the shared budget and epoch cap; per-minter allowances are for secondary minters.
+const VAULT_MINTER_ALLOWANCE = 2n ** 64n - 1n;
+// Initial redemption price in wei per whole cUSDT; the owner adjusts it with `setPrice()`.
+const REDEMPTION_PRICE = 4n * 10n ** 14n;
+
+// All contracts sit behind ERC-1967 proxies and authorize their own upgrades (UUPS). Re-running the script with
+// changed sources deploys a new implementation and upgrades the proxy in place, keeping its address and storage.
+const uupsProxy = (initArgs: unknown[]) => ({
+  proxyContract: "UUPS",
+  execute: { init: { methodName: "initialize", args: initArgs } },
+  // OpenZeppelin 5 proxies only expose `upgradeToAndCall`.
+  upgradeFunction: { methodName: "upgradeToAndCall", upgradeArgs: ["{implementation}", "0x"] },
+});
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy, log } = hre.deployments;
 
   const deployedCusdt = await deploy("ConfidentialUSDT", {
     from: deployer,
+    proxy: uupsProxy([]),
     log: true,
   });
   log(`ConfidentialUSDT deployed at ${deployedCusdt.address}`);
 
   const deployedVault = await deploy("SecretRate", {
     from: deployer,
-    args: [deployedCusdt.address],
+    proxy: uupsProxy([deployedCusdt.address]),
     log: true,
   });
   log(`SecretRate deployed at ${deployedVault.address}`);
 
+  const deployedShareVault = await deploy("ConfidentialShareVault", {
+    from: deployer,
+    proxy: uupsProxy([deployedCusdt.address]),
+    log: true,
+  });
+  log(`ConfidentialShareVault deployed at ${deployedShareVault.address}`);
+
+  const deployedReceipt = await deploy("ConfidentialStakedETH", {
+    from: deployer,
+    proxy: uupsProxy([deployedVault.address]),
+    log: true,
+  });
+  log(`ConfidentialStakedETH deployed at ${deployedReceipt.address}`);
+
+  const deployedRedemption = await deploy("CUSDTRedemption", {
+    from: deployer,
+    proxy: uupsProxy([deployedCusdt.address, REDEMPTION_PRICE]),
+    log: true,
+  });
+  log(`CUSDTRedemption deployed at ${deployedRedemption.address}`);
+
   const cusdt = await hre.ethers.getContractAt("ConfidentialUSDT", deployedCusdt.address);
-  const currentMinter = await cusdt.minter();
-  if (currentMinter !== deployedVault.address) {
-    const tx = await cusdt.setMinter(deployedVault.address);
+  const grantRoleOnce = async (role: string, roleName: string, account: string, accountName: string) => {
+    if (await cusdt.hasRole(role, account)) {
+      return;
+    }
+    const tx = await cusdt.grantRole(role, account);
+    await tx.wait();
+    log(`Granted cUSDT ${roleName} to ${accountName}`);
+  };
+
+  await grantRoleOnce(await cusdt.MINTER_ROLE(), "MINTER_ROLE", deployedVault.address, "SecretRate");
+  await grantRoleOnce(await cusdt.PAUSER_ROLE(), "PAUSER_ROLE", deployer, "deployer");
+  await grantRoleOnce(await cusdt.BURNER_ROLE(), "BURNER_ROLE", deployedRedemption.address, "CUSDTRedemption");
+
+  if ((await cusdt.minterAllowance(deployedVault.address)) === 0n) {
+    const tx = await cusdt.setMinterAllowance(deployedVault.address, VAULT_MINTER_ALLOWANCE);
+    await tx.wait();
+    log(`Set SecretRate cUSDT minter allowance`);
+  }
+
+  if ((await cusdt.epochCap()) === 0n) {
+    const tx = await cusdt.setEpochCap(EPOCH_EMISSION_CAP);
+    await tx.wait();
+    log(`Set cUSDT epoch emission cap to ${hre.ethers.formatUnits(EPOCH_EMISSION_CAP, 6)}`);
+  }
+  if ((await cusdt.lifetimeCap()) === 0n) {
+    const tx = await cusdt.topUpBudget(INITIAL_REWARD_BUDGET);
+    await tx.wait();
+    log(`Funded cUSDT reward budget with ${hre.ethers.formatUnits(INITIAL_REWARD_BUDGET, 6)}`);
+  }
+
+  const vault = await hre.ethers.getContractAt("SecretRate", deployedVault.address);
+  if ((await vault.shareVault()) !== deployedShareVault.address) {
+    const tx = await vault.setShareVault(deployedShareVault.address);
+    await tx.wait();
+    log(`Set SecretRate share vault to ${deployedShareVault.address}`);
+  }
+  if ((await vault.receiptToken()) !== deployedReceipt.address) {
+    const tx = await vault.setReceiptToken(deployedReceipt.address);
     await tx.wait();
-    log(`Set SecretRate as cUSDT minter`);
+    log(`Set SecretRate receipt token to ${deployedReceipt.address}`);
   }
 };
 export default func;
@@ -10,7 +10,10 @@ import "solidity-coverage";
 import * as dotenv from "dotenv";
 
 import "./tasks/accounts";
+import "./tasks/exportFrontend";
+import "./tasks/positionIndexer";
 import "./tasks/secretRate";
+import "./tasks/withdrawalKeeper";
 
 dotenv.config();
 
@@ -18,6 +21,23 @@ const PRIVATE_KEY: string = process.env.PRIVATE_KEY || "";
 const INFURA_API_KEY: string = process.env.INFURA_API_KEY || "";
 const ACCOUNTS = PRIVATE_KEY === "" ? [] : [PRIVATE_KEY];
 
+function solcSettings(runs: number) {
+  return {
+    metadata: {
+      // Not including the metadata hash
+      // https://github.com/paulrberg/hardhat-template/issues/31
+      bytecodeHash: "none",
+    },
+    // Disable the optimizer when debugging
+    // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+    optimizer: {
+      enabled: true,
+      runs,
+    },
+    evmVersion: "cancun",
+  };
+}
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
@@ -57,20 +77,12 @@ const config: HardhatUserConfig = {
     tests: "./test",
   },
   solidity: {
-    version: "0.8.27",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
-      },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
-      },
-      evmVersion: "cancun",
+    compilers: [{ version: "0.8.27", settings: solcSettings(800) }],
+    overrides: {
+      // SecretRate is close to the 24 KB contract size limit, so it (and the upgrade mock that inherits it) is
+      // optimized for deployment size rather than call cost
+      "contracts/SecretRate.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/mocks/SecretRateUpgradeMock.sol": { version: "0.8.27", settings: solcSettings(1) },
     },
   },
   typechain: {
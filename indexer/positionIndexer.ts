@@ -0,0 +1,171 @@
+import type { Log, Result } from "ethers";
+import { defaultConfirmations } from "../shared/confirmations";
+import type { ConfidentialUSDT, SecretRate } from "../types";
+import type { IndexedEvent, PositionStore } from "./positionStore";
+
+export type PositionIndexerOptions = {
+  vault: SecretRate;
+  cusdt: ConfidentialUSDT;
+  store: PositionStore;
+  /** First block to index when the store is empty (usually the vault deployment block). */
+  fromBlock?: number;
+  /**
+   * Blocks to stay behind the head, so short reorgs never reach the store. Defaults to
+   * `DEFAULT_CONFIRMATIONS`, or 0 on a local Hardhat chain, which does not reorg.
+   */
+  confirmations?: number;
+  maxBlockRange?: number;
+  /** Blocks dropped and re-indexed when the last indexed block is no longer on the chain. */
+  reorgDepth?: number;
+  pollIntervalMs?: number;
+  log?: (message: string) => void;
+};
+
+type Decoded = Pick<IndexedEvent, "account" | "counterparty" | "amount" | "handle">;
+
+function decoded(account: string, fields: { counterparty?: string; amount?: bigint; handle?: string } = {}): Decoded {
+  return {
+    account,
+    counterparty: fields.counterparty ?? null,
+    amount: fields.amount === undefined ? null : fields.amount.toString(),
+    handle: fields.handle ?? null,
+  };
+}
+
+const VAULT_EVENTS: Record<string, (args: Result) => Decoded> = {
+  Staked: (args) => decoded(args.user, { amount: args.amount, handle: args.encryptedTotal }),
+  StakedEncrypted: (args) => decoded(args.user, { handle: args.encryptedTotal }),
+  StakedFor: (args) => decoded(args.beneficiary, { counterparty: args.funder, handle: args.encryptedTotal }),
+  InterestClaimed: (args) => decoded(args.user, { handle: args.encryptedMinted }),
+  YieldSwept: (args) => decoded(args.user, { handle: args.encryptedMinted }),
+  WithdrawalRequested: (args) => decoded(args.user, { amount: args.plainAmount, handle: args.encryptedHandle }),
+  PartialWithdrawalRequested: (args) => decoded(args.user, { handle: args.encryptedHandle }),
+  WithdrawalFinalized: (args) => decoded(args.user, { amount: args.plainAmount }),
+};
+
+const CUSDT_EVENTS: Record<string, (args: Result) => Decoded> = {
+  ConfidentialTransfer: (args) => decoded(args.from, { counterparty: args.to, handle: args.amount }),
+};
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Indexes SecretRate position history (stakes, claims, withdrawals) and cUSDT transfers into a `PositionStore`.
+ * Only blocks `confirmations` behind the head are indexed. If the last indexed block is later replaced anyway, the
+ * last `reorgDepth` blocks are dropped and indexed again.
+ */
+export function createPositionIndexer(options: PositionIndexerOptions) {
+  const { vault, cusdt, store } = options;
+  const fromBlock = options.fromBlock ?? 0;
+  const maxBlockRange = options.maxBlockRange ?? 5_000;
+  const reorgDepth = options.reorgDepth ?? 64;
+  const pollIntervalMs = options.pollIntervalMs ?? 15_000;
+  const log = options.log ?? console.log;
+  const provider = vault.runner!.provider!;
+
+  const confirmations = async () => options.confirmations ?? defaultConfirmations(provider);
+
+  const decode = async (logs: Log[], vaultAddress: string) => {
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+    for (const entry of logs) {
+      const fromVault = entry.address.toLowerCase() === vaultAddress.toLowerCase();
+      const parsed = (fromVault ? vault : cusdt).interface.parseLog(entry);
+      const decoder = parsed && (fromVault ? VAULT_EVENTS : CUSDT_EVENTS)[parsed.name];
+      if (!decoder) {
+        continue;
+      }
+
+      if (!timestamps.has(entry.blockNumber)) {
+        const block = await provider.getBlock(entry.blockNumber);
+        timestamps.set(entry.blockNumber, block!.timestamp);
+      }
+      events.push({
+        blockNumber: entry.blockNumber,
+        logIndex: entry.index,
+        transactionHash: entry.transactionHash,
+        timestamp: timestamps.get(entry.blockNumber)!,
+        contract: fromVault ? "SecretRate" : "ConfidentialUSDT",
+        name: parsed!.name,
+        ...decoder(parsed!.args),
+      });
+    }
+    return events;
+  };
+
+  const rewindIfReorged = async () => {
+    const cursor = store.cursor();
+    if (!cursor || cursor.blockNumber < fromBlock) {
+      return;
+    }
+    const block = await provider.getBlock(cursor.blockNumber);
+    if (block?.hash === cursor.blockHash) {
+      return;
+    }
+
+    const target = Math.max(cursor.blockNumber - reorgDepth, fromBlock - 1);
+    const targetBlock = target >= 0 ? await provider.getBlock(target) : null;
+    store.rewind({ ...cursor, blockNumber: target, blockHash: targetBlock?.hash ?? "" });
+    log(`Block ${cursor.blockNumber} was reorged out, re-indexing from block ${target + 1}`);
+  };
+
+  const poll = async () => {
+    await rewindIfReorged();
+
+    const vaultAddress = await vault.getAddress();
+    const cusdtAddress = await cusdt.getAddress();
+    const toBlock = (await provider.getBlockNumber()) - (await confirmations());
+
+    let next = (store.cursor()?.blockNumber ?? fromBlock - 1) + 1;
+    while (next <= toBlock) {
+      const endBlock = Math.min(toBlock, next + maxBlockRange - 1);
+      const logs = await provider.getLogs({
+        address: [vaultAddress, cusdtAddress],
+        fromBlock: next,
+        toBlock: endBlock,
+      });
+      const events = await decode(logs, vaultAddress);
+
+      const [block, vaultBalance, lifetimeMinted] = await Promise.all([
+        provider.getBlock(endBlock),
+        provider.getBalance(vaultAddress, endBlock),
+        cusdt.lifetimeMinted({ blockTag: endBlock }),
+      ]);
+      store.append(events, {
+        blockNumber: endBlock,
+        blockHash: block!.hash!,
+        vaultBalance: vaultBalance.toString(),
+        lifetimeMintedHandle: lifetimeMinted,
+      });
+      if (events.length > 0) {
+        log(`Indexed ${events.length} events up to block ${endBlock}`);
+      }
+      next = endBlock + 1;
+    }
+  };
+
+  const run = async (signal?: AbortSignal) => {
+    while (!signal?.aborted) {
+      try {
+        await poll();
+      } catch (err) {
+        log(`Indexer poll failed: ${(err as Error).message}`);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { poll, run };
+}
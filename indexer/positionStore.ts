@@ -0,0 +1,184 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+/** One indexed log. Amounts are public wei values as decimal strings; encrypted values are kept as their handles. */
+export type IndexedEvent = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  contract: "SecretRate" | "ConfidentialUSDT";
+  name: string;
+  account: string;
+  counterparty: string | null;
+  amount: string | null;
+  handle: string | null;
+};
+
+/** The last block the store is complete up to, with what was read at that block. */
+export type IndexerCursor = {
+  blockNumber: number;
+  blockHash: string;
+  vaultBalance: string;
+  lifetimeMintedHandle: string;
+};
+
+export type IndexerStats = {
+  blockNumber: number | null;
+  /** ETH held by the vault at `blockNumber`: stakes, idle vault balances and pending withdrawals. */
+  tvl: string;
+  stakers: number;
+  claims: number;
+  sweeps: number;
+  /** cUSDT's encrypted lifetime minted total; only the cUSDT owner can decrypt it. */
+  lifetimeMintedHandle: string | null;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    account TEXT NOT NULL,
+    counterparty TEXT,
+    amount TEXT,
+    handle TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_counterparty ON events (counterparty, block_number);
+  CREATE TABLE IF NOT EXISTS cursor (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    vault_balance TEXT NOT NULL,
+    lifetime_minted_handle TEXT NOT NULL
+  );
+`;
+
+const STAKE_EVENTS = ["Staked", "StakedEncrypted", "StakedFor"];
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  timestamp: number;
+  contract: IndexedEvent["contract"];
+  name: string;
+  account: string;
+  counterparty: string | null;
+  amount: string | null;
+  handle: string | null;
+};
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+    contract: row.contract,
+    name: row.name,
+    account: row.account,
+    counterparty: row.counterparty,
+    amount: row.amount,
+    handle: row.handle,
+  };
+}
+
+/**
+ * SQLite store behind the position indexer. Events and the cursor are always written in one transaction, so the
+ * store never holds part of a block range; `rewind` drops everything above a block after a reorg.
+ */
+export function openPositionStore(file: string) {
+  if (file !== ":memory:") {
+    mkdirSync(dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events
+      (block_number, log_index, transaction_hash, timestamp, contract, name, account, counterparty, amount, handle)
+    VALUES
+      (@blockNumber, @logIndex, @transactionHash, @timestamp, @contract, @name, @account, @counterparty, @amount,
+       @handle)
+  `);
+  const writeCursor = db.prepare(`
+    INSERT OR REPLACE INTO cursor (id, block_number, block_hash, vault_balance, lifetime_minted_handle)
+    VALUES (0, @blockNumber, @blockHash, @vaultBalance, @lifetimeMintedHandle)
+  `);
+
+  const append = db.transaction((events: IndexedEvent[], cursor: IndexerCursor) => {
+    for (const event of events) {
+      insertEvent.run(event);
+    }
+    writeCursor.run(cursor);
+  });
+
+  const rewind = db.transaction((cursor: IndexerCursor) => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(cursor.blockNumber);
+    writeCursor.run(cursor);
+  });
+
+  const cursor = (): IndexerCursor | undefined => {
+    const row = db.prepare("SELECT * FROM cursor WHERE id = 0").get() as
+      | { block_number: number; block_hash: string; vault_balance: string; lifetime_minted_handle: string }
+      | undefined;
+    return (
+      row && {
+        blockNumber: row.block_number,
+        blockHash: row.block_hash,
+        vaultBalance: row.vault_balance,
+        lifetimeMintedHandle: row.lifetime_minted_handle,
+      }
+    );
+  };
+
+  /** Events where `account` is the subject or the counterparty, newest first. */
+  const history = (account: string, options: { limit?: number; beforeBlock?: number } = {}) => {
+    const rows = db
+      .prepare(
+        `SELECT * FROM events
+         WHERE (account = @account OR counterparty = @account) AND block_number < @beforeBlock
+         ORDER BY block_number DESC, log_index DESC
+         LIMIT @limit`,
+      )
+      .all({
+        account,
+        beforeBlock: options.beforeBlock ?? Number.MAX_SAFE_INTEGER,
+        limit: options.limit ?? 100,
+      }) as EventRow[];
+    return rows.map(toEvent);
+  };
+
+  const stats = (): IndexerStats => {
+    const count = (names: string[], distinct = false) => {
+      const placeholders = names.map(() => "?").join(", ");
+      const column = distinct ? "COUNT(DISTINCT account)" : "COUNT(*)";
+      const row = db
+        .prepare(`SELECT ${column} AS total FROM events WHERE contract = 'SecretRate' AND name IN (${placeholders})`)
+        .get(...names) as { total: number };
+      return row.total;
+    };
+
+    const current = cursor();
+    return {
+      blockNumber: current?.blockNumber ?? null,
+      tvl: current?.vaultBalance ?? "0",
+      stakers: count(STAKE_EVENTS, true),
+      claims: count(["InterestClaimed"]),
+      sweeps: count(["YieldSwept"]),
+      lifetimeMintedHandle: current?.lifetimeMintedHandle ?? null,
+    };
+  };
+
+  return { cursor, append, rewind, history, stats, close: () => db.close() };
+}
+
+export type PositionStore = ReturnType<typeof openPositionStore>;
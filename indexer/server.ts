@@ -0,0 +1,56 @@
+import { getAddress, isAddress } from "ethers";
+import { createServer, ServerResponse } from "http";
+import type { PositionStore } from "./positionStore";
+
+const MAX_HISTORY_LIMIT = 500;
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The app is served from another origin (Vite dev server or static hosting).
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read-only JSON API over a `PositionStore`:
+ *   - `GET /stats`: indexed block, vault TVL, staker, claim and sweep counts, encrypted lifetime minted handle.
+ *   - `GET /users/:address/history?limit=&before=`: the user's events, newest first, before block `before`.
+ */
+export function createIndexerServer(store: PositionStore) {
+  return createServer((req, res) => {
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === "/stats") {
+      send(res, 200, store.stats());
+      return;
+    }
+
+    const history = url.pathname.match(/^\/users\/([^/]+)\/history$/);
+    if (history) {
+      if (!isAddress(history[1])) {
+        send(res, 400, { error: `Invalid address: ${history[1]}` });
+        return;
+      }
+      const limit = Number(url.searchParams.get("limit") ?? 100);
+      const before = url.searchParams.has("before") ? Number(url.searchParams.get("before")) : undefined;
+      if (!Number.isSafeInteger(limit) || limit <= 0 || (before !== undefined && !Number.isSafeInteger(before))) {
+        send(res, 400, { error: "limit and before must be integers" });
+        return;
+      }
+      const address = getAddress(history[1]);
+      send(res, 200, {
+        address,
+        events: store.history(address, { limit: Math.min(limit, MAX_HISTORY_LIMIT), beforeBlock: before }),
+      });
+      return;
+    }
+
+    send(res, 404, { error: "Not found" });
+  });
+}
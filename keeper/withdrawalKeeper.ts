@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { defaultConfirmations } from "../shared/confirmations";
+import type { SecretRate } from "../types";
+
+export type PublicDecrypt = (handles: string[]) => Promise<{
+  clearValues: Record<string, unknown>;
+  decryptionProof: string;
+}>;
+
+export type PendingWithdrawal = {
+  user: string;
+  handle: string;
+  blockNumber: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+};
+
+export type KeeperState = {
+  lastBlock: number;
+  pending: PendingWithdrawal[];
+};
+
+export type WithdrawalKeeperOptions = {
+  vault: SecretRate;
+  publicDecrypt: PublicDecrypt;
+  /** JSON file holding the block cursor and the retry queue, so the keeper resumes after a restart. */
+  stateFile: string;
+  /** First block to scan when no state file exists yet (usually the vault deployment block). */
+  fromBlock?: number;
+  /**
+   * Blocks to wait before acting on a request, so a reorg cannot drop one that was already finalized. Defaults to
+   * `DEFAULT_CONFIRMATIONS`, or 0 on a local Hardhat chain, which does not reorg.
+   */
+  confirmations?: number;
+  maxBlockRange?: number;
+  baseDelayMs?: number;
+  /** Cap on the backoff between attempts; a withdrawal is retried for as long as it stays pending on-chain. */
+  maxDelayMs?: number;
+  pollIntervalMs?: number;
+  now?: () => number;
+  log?: (message: string) => void;
+};
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function loadKeeperState(stateFile: string, fromBlock: number): KeeperState {
+  if (!existsSync(stateFile)) {
+    return { lastBlock: fromBlock - 1, pending: [] };
+  }
+  return JSON.parse(readFileSync(stateFile, "utf8")) as KeeperState;
+}
+
+export function saveKeeperState(stateFile: string, state: KeeperState) {
+  mkdirSync(dirname(stateFile), { recursive: true });
+  // Write then rename so a crash mid-write never leaves a truncated cursor behind.
+  const tmpFile = `${stateFile}.tmp`;
+  writeFileSync(tmpFile, JSON.stringify(state, null, 2));
+  renameSync(tmpFile, stateFile);
+}
+
+/**
+ * Finalizes SecretRate withdrawals on behalf of users: scans `WithdrawalRequested` and
+ * `PartialWithdrawalRequested` logs, public-decrypts each disclosed handle and submits `finalizeWithdraw`.
+ * Failed attempts are retried with exponential backoff capped at `maxDelayMs`, so a paused vault or a relayer
+ * outage only delays a withdrawal. A request drops out of the queue once it is no longer pending on-chain.
+ */
+export function createWithdrawalKeeper(options: WithdrawalKeeperOptions) {
+  const { vault, publicDecrypt, stateFile } = options;
+  const maxBlockRange = options.maxBlockRange ?? 5_000;
+  const baseDelayMs = options.baseDelayMs ?? 5_000;
+  const maxDelayMs = options.maxDelayMs ?? 10 * 60_000;
+  const pollIntervalMs = options.pollIntervalMs ?? 15_000;
+  const now = options.now ?? Date.now;
+  const log = options.log ?? console.log;
+
+  const state = loadKeeperState(stateFile, options.fromBlock ?? 0);
+
+  const scan = async () => {
+    const provider = vault.runner!.provider!;
+    const confirmations = options.confirmations ?? (await defaultConfirmations(provider));
+    const toBlock = (await provider.getBlockNumber()) - confirmations;
+
+    while (state.lastBlock < toBlock) {
+      const fromBlock = state.lastBlock + 1;
+      const endBlock = Math.min(toBlock, fromBlock + maxBlockRange - 1);
+
+      const [full, partial] = await Promise.all([
+        vault.queryFilter(vault.filters.WithdrawalRequested(), fromBlock, endBlock),
+        vault.queryFilter(vault.filters.PartialWithdrawalRequested(), fromBlock, endBlock),
+      ]);
+      for (const event of [...full, ...partial]) {
+        const { user, encryptedHandle } = event.args;
+        if (!state.pending.some((entry) => entry.handle === encryptedHandle)) {
+          state.pending.push({
+            user,
+            handle: encryptedHandle,
+            blockNumber: event.blockNumber,
+            attempts: 0,
+            nextAttemptAt: 0,
+          });
+          log(`Queued withdrawal ${encryptedHandle} for ${user}`);
+        }
+      }
+
+      state.lastBlock = endBlock;
+      saveKeeperState(stateFile, state);
+    }
+  };
+
+  const settle = async (entry: PendingWithdrawal) => {
+    // The user may have finalized from the browser in the meantime.
+    const liveHandle = await vault.withdrawalHandle(entry.user);
+    if (liveHandle !== entry.handle) {
+      log(`Withdrawal ${entry.handle} is no longer pending, skipping`);
+      return;
+    }
+
+    const decryption = await publicDecrypt([entry.handle]);
+    const clearAmount = BigInt(decryption.clearValues[entry.handle] as bigint);
+
+    const tx = await vault.finalizeWithdraw(entry.handle, clearAmount, decryption.decryptionProof);
+    await tx.wait();
+    log(`Finalized withdrawal ${entry.handle} for ${entry.user}: ${clearAmount} wei (tx ${tx.hash})`);
+  };
+
+  const processPending = async () => {
+    for (const entry of [...state.pending]) {
+      if (entry.nextAttemptAt > now()) {
+        continue;
+      }
+
+      try {
+        await settle(entry);
+        state.pending = state.pending.filter((pending) => pending !== entry);
+      } catch (err) {
+        entry.attempts += 1;
+        entry.lastError = (err as Error).message;
+        entry.nextAttemptAt = now() + Math.min(baseDelayMs * 2 ** (entry.attempts - 1), maxDelayMs);
+        log(`Withdrawal ${entry.handle} failed (attempt ${entry.attempts}), retrying later: ${entry.lastError}`);
+      }
+      saveKeeperState(stateFile, state);
+    }
+  };
+
+  const poll = async () => {
+    await scan();
+    await processPending();
+  };
+
+  const run = async (signal?: AbortSignal) => {
+    while (!signal?.aborted) {
+      try {
+        await poll();
+      } catch (err) {
+        log(`Keeper poll failed: ${(err as Error).message}`);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { state, poll, run };
+}
@@ -0,0 +1,16 @@
+// Default confirmation depth of the off-chain withdrawal keeper and position indexer, so a short reorg cannot undo
+// a block they already acted on. A local Hardhat chain does not reorg, so there they follow the head.
+
+export const DEFAULT_CONFIRMATIONS = 2;
+
+const LOCAL_CHAIN_ID = 31337n;
+
+/** Any ethers v6 provider satisfies this. */
+export type NetworkProvider = {
+  getNetwork(): Promise<{ chainId: bigint }>;
+};
+
+export async function defaultConfirmations(provider: NetworkProvider): Promise<number> {
+  const { chainId } = await provider.getNetwork();
+  return chainId === LOCAL_CHAIN_ID ? 0 : DEFAULT_CONFIRMATIONS;
+}
@@ -0,0 +1,93 @@
+// EIP-712 payloads for SecretRate's signed `claimInterestFor` and `requestWithdrawFor`, shared by the Hardhat tasks
+// and the React app. It has no dependencies: any ethers v6 signer satisfies `TypedDataSigner`.
+
+export const SECRET_RATE_EIP712_NAME = "SecretRate";
+export const SECRET_RATE_EIP712_VERSION = "1";
+
+export type SignedAction = "ClaimInterest" | "RequestWithdraw";
+
+export type TypedDataField = { name: string; type: string };
+
+export type TypedDataDomain = {
+  name: string;
+  version: string;
+  chainId: bigint;
+  verifyingContract: string;
+};
+
+export type TypedDataSigner = {
+  getAddress(): Promise<string>;
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string>;
+};
+
+/** A signed action as handed to a relayer, which submits it with `submitArgs`. */
+export type SignedActionRequest = {
+  action: SignedAction;
+  vault: string;
+  chainId: bigint;
+  staker: string;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+};
+
+const ACTION_FIELDS: TypedDataField[] = [
+  { name: "staker", type: "address" },
+  { name: "nonce", type: "uint256" },
+  { name: "deadline", type: "uint256" },
+];
+
+export function signedActionDomain(chainId: bigint, vault: string): TypedDataDomain {
+  return { name: SECRET_RATE_EIP712_NAME, version: SECRET_RATE_EIP712_VERSION, chainId, verifyingContract: vault };
+}
+
+export function signedActionTypes(action: SignedAction): Record<string, TypedDataField[]> {
+  return { [action]: ACTION_FIELDS };
+}
+
+/**
+ * Signs `action` for the signer's own stake. `nonce` must be the vault's current `nonces(staker)`; each signature
+ * consumes it, so sign the next action only after the previous one was submitted.
+ */
+export async function signAction(
+  signer: TypedDataSigner,
+  params: { action: SignedAction; vault: string; chainId: bigint; nonce: bigint; deadline: bigint },
+): Promise<SignedActionRequest> {
+  const staker = await signer.getAddress();
+  const signature = await signer.signTypedData(
+    signedActionDomain(params.chainId, params.vault),
+    signedActionTypes(params.action),
+    { staker, nonce: params.nonce, deadline: params.deadline },
+  );
+  return { ...params, staker, signature };
+}
+
+/** Arguments for `claimInterestFor(address,uint256,bytes)` or `requestWithdrawFor(address,uint256,bytes)`. */
+export function submitArgs(request: SignedActionRequest): [string, bigint, string] {
+  return [request.staker, request.deadline, request.signature];
+}
+
+/** Serializes a signed request to JSON (bigints as decimal strings) for handing it to a relayer. */
+export function encodeSignedAction(request: SignedActionRequest): string {
+  return JSON.stringify(request, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+export function decodeSignedAction(json: string): SignedActionRequest {
+  const raw = JSON.parse(json);
+  if (raw.action !== "ClaimInterest" && raw.action !== "RequestWithdraw") {
+    throw new Error(`Unknown signed action: ${raw.action}`);
+  }
+  return {
+    action: raw.action,
+    vault: raw.vault,
+    chainId: BigInt(raw.chainId),
+    staker: raw.staker,
+    nonce: BigInt(raw.nonce),
+    deadline: BigInt(raw.deadline),
+    signature: raw.signature,
+  };
+}
@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import {
+  encodeEventTopics,
+  formatEther,
+  formatLog,
+  formatUnits,
+  numberToHex,
+  pad,
+  parseEventLogs,
+  zeroAddress,
+  type Hex,
+} from 'viem';
+import { CUSDT_ABI, SECRET_RATE_ABI, type ContractAddresses } from '../config/contracts';
+import type { DecryptRequest } from '../hooks/useUserDecrypt';
+import '../styles/ActivityTimeline.css';
+
+// About a week of Sepolia blocks, fetched in ranges public RPCs accept.
+const LOOKBACK_BLOCKS = 50_000n;
+const LOG_RANGE = 10_000n;
+
+// Events indexed by `user` in the first topic; StakedFor indexes the beneficiary in the second one.
+const USER_EVENTS = [
+  'Staked',
+  'StakedEncrypted',
+  'InterestClaimed',
+  'YieldSwept',
+  'WithdrawalRequested',
+  'PartialWithdrawalRequested',
+  'EmergencyWithdrawalRequested',
+  'WithdrawalCancelled',
+  'WithdrawalFinalized',
+] as const;
+
+type ActivityKind = 'stake' | 'claim' | 'withdraw' | 'transfer';
+
+const VIEWS = [
+  { id: 'all', label: 'All' },
+  { id: 'vault', label: 'Vault' },
+  { id: 'transfers', label: 'Transfers' },
+] as const;
+
+type ActivityView = (typeof VIEWS)[number]['id'];
+
+type EncryptedValue = {
+  handle: Hex;
+  // Contract whose ACL grants the user access, or undefined when the user cannot decrypt the handle.
+  contractAddress?: string;
+  unit: 'ETH' | 'cUSDT';
+};
+
+type ActivityRow = {
+  id: string;
+  kind: ActivityKind;
+  title: string;
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp: number;
+  transactionHash: Hex;
+  publicValue?: string;
+  encrypted?: EncryptedValue;
+};
+
+type VaultLog = ReturnType<typeof parseEventLogs<typeof SECRET_RATE_ABI>>[number];
+type TransferLog = ReturnType<typeof parseEventLogs<typeof CUSDT_ABI, true, 'ConfidentialTransfer'>>[number];
+
+type ActivityDetails = Pick<ActivityRow, 'kind' | 'title' | 'publicValue' | 'encrypted'>;
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function describe(log: VaultLog, contracts: ContractAddresses): ActivityDetails | null {
+  const stakeTotal = (handle: Hex): EncryptedValue => ({ handle, contractAddress: contracts.SecretRate, unit: 'ETH' });
+
+  switch (log.eventName) {
+    case 'Staked':
+      return {
+        kind: 'stake',
+        title: 'Staked',
+        publicValue: `${formatEther(log.args.amount)} ETH`,
+        encrypted: stakeTotal(log.args.encryptedTotal),
+      };
+    case 'StakedEncrypted':
+      return { kind: 'stake', title: 'Staked (encrypted amount)', encrypted: stakeTotal(log.args.encryptedTotal) };
+    case 'StakedFor':
+      return {
+        kind: 'stake',
+        title: `Staked for you by ${shortAddress(log.args.funder)}`,
+        encrypted: stakeTotal(log.args.encryptedTotal),
+      };
+    case 'InterestClaimed':
+      return {
+        kind: 'claim',
+        title: 'Claimed cUSDT',
+        encrypted: { handle: log.args.encryptedMinted, contractAddress: contracts.ConfidentialUSDT, unit: 'cUSDT' },
+      };
+    case 'YieldSwept':
+      // Minted to the vault and deposited into the share vault, so only the vault can read the amount.
+      return {
+        kind: 'claim',
+        title: 'Swept into scUSDT',
+        encrypted: { handle: log.args.encryptedMinted, unit: 'cUSDT' },
+      };
+    case 'WithdrawalRequested':
+      return {
+        kind: 'withdraw',
+        title: 'Requested full withdrawal',
+        publicValue: log.args.plainAmount > 0n ? `${formatEther(log.args.plainAmount)} ETH public` : undefined,
+        encrypted: stakeTotal(log.args.encryptedHandle),
+      };
+    case 'PartialWithdrawalRequested':
+      return {
+        kind: 'withdraw',
+        title: 'Requested partial withdrawal',
+        encrypted: stakeTotal(log.args.encryptedHandle),
+      };
+    case 'EmergencyWithdrawalRequested':
+      return { kind: 'withdraw', title: 'Requested emergency exit', encrypted: stakeTotal(log.args.encryptedHandle) };
+    case 'WithdrawalCancelled':
+      return { kind: 'withdraw', title: 'Cancelled withdrawal', encrypted: stakeTotal(log.args.encryptedHandle) };
+    case 'WithdrawalFinalized':
+      return {
+        kind: 'withdraw',
+        title: 'Withdrawal paid out',
+        publicValue: `${formatEther(log.args.plainAmount)} ETH`,
+      };
+    default:
+      return null;
+  }
+}
+
+// Mints and burns are already covered by the vault and redemption events; only wallet-to-wallet moves are listed.
+function describeTransfer(log: TransferLog, user: string, contracts: ContractAddresses): ActivityDetails | null {
+  const { from, to, amount } = log.args;
+  if (from === zeroAddress || to === zeroAddress) {
+    return null;
+  }
+  const outgoing = from.toLowerCase() === user.toLowerCase();
+  return {
+    kind: 'transfer',
+    title: outgoing ? `Sent cUSDT to ${shortAddress(to)}` : `Received cUSDT from ${shortAddress(from)}`,
+    encrypted: { handle: amount, contractAddress: contracts.ConfidentialUSDT, unit: 'cUSDT' },
+  };
+}
+
+function formatWhen(row: ActivityRow) {
+  return row.timestamp ? new Date(row.timestamp * 1000).toLocaleString() : `Block ${row.blockNumber}`;
+}
+
+type ActivityTimelineProps = {
+  contracts: ContractAddresses;
+  // Bumped by the parent after its own transactions so the timeline picks them up.
+  refreshKey: number;
+  decryptDisabled: boolean;
+  decrypt: (requests: DecryptRequest[]) => Promise<Record<string, bigint>>;
+  onError: (message: string) => void;
+};
+
+/**
+ * Lists the connected user's recent stakes, claims and withdrawals from the vault logs, and their incoming and
+ * outgoing cUSDT transfers. Encrypted handles the user is allowed to read can be decrypted row by row through the
+ * user-decrypt flow.
+ */
+export function ActivityTimeline({
+  contracts,
+  refreshKey,
+  decryptDisabled,
+  decrypt,
+  onError,
+}: ActivityTimelineProps) {
+  const { address, chain } = useAccount();
+  const explorerUrl = chain?.blockExplorers?.default.url;
+  const publicClient = usePublicClient();
+
+  const [rows, setRows] = useState<ActivityRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloads, setReloads] = useState(0);
+  const [view, setView] = useState<ActivityView>('all');
+  const [decrypting, setDecrypting] = useState('');
+  const [decrypted, setDecrypted] = useState<Record<string, string>>({});
+
+  const loadActivity = useCallback(async () => {
+    if (!publicClient || !address) {
+      setRows([]);
+      return;
+    }
+
+    const selectors = USER_EVENTS.map((eventName) => encodeEventTopics({ abi: SECRET_RATE_ABI, eventName })[0]);
+    const [stakedFor] = encodeEventTopics({ abi: SECRET_RATE_ABI, eventName: 'StakedFor' });
+    const [transfer] = encodeEventTopics({ abi: CUSDT_ABI, eventName: 'ConfidentialTransfer' });
+    const userTopic = pad(address);
+    const queries = [
+      { address: contracts.SecretRate, topics: [selectors, userTopic] },
+      { address: contracts.SecretRate, topics: [stakedFor, null, userTopic] },
+      { address: contracts.ConfidentialUSDT, topics: [transfer, userTopic] },
+      { address: contracts.ConfidentialUSDT, topics: [transfer, null, userTopic] },
+    ] as const;
+
+    const latest = await publicClient.getBlockNumber();
+    const start = latest > LOOKBACK_BLOCKS ? latest - LOOKBACK_BLOCKS : 0n;
+    const rpcLogs = [];
+    for (let from = start; from <= latest; from += LOG_RANGE) {
+      const to = from + LOG_RANGE - 1n < latest ? from + LOG_RANGE - 1n : latest;
+      const range = { fromBlock: numberToHex(from), toBlock: numberToHex(to) };
+      const results = await Promise.all(
+        queries.map((query) =>
+          publicClient.request({ method: 'eth_getLogs', params: [{ ...range, ...query, topics: [...query.topics] }] })
+        )
+      );
+      rpcLogs.push(...results.flat());
+    }
+
+    const logs = rpcLogs.map((log) => formatLog(log));
+    const fromVault = logs.filter((log) => log.address.toLowerCase() === contracts.SecretRate.toLowerCase());
+    const fromCusdt = logs.filter((log) => log.address.toLowerCase() === contracts.ConfidentialUSDT.toLowerCase());
+    const decoded = [
+      ...parseEventLogs({ abi: SECRET_RATE_ABI, logs: fromVault }).map((log) => ({
+        log,
+        details: describe(log, contracts),
+      })),
+      ...parseEventLogs({ abi: CUSDT_ABI, eventName: 'ConfidentialTransfer', logs: fromCusdt }).map((log) => ({
+        log,
+        details: describeTransfer(log, address, contracts),
+      })),
+    ];
+
+    const blockNumbers = [...new Set(decoded.map(({ log }) => log.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+    // Keyed by log, so a transfer to oneself found by both the sender and the recipient query is listed once.
+    const next = new Map<string, ActivityRow>();
+    for (const { log, details } of decoded) {
+      if (details) {
+        const id = `${log.transactionHash}-${log.logIndex}`;
+        next.set(id, {
+          id,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          timestamp: timestamps.get(log.blockNumber) ?? 0,
+          transactionHash: log.transactionHash,
+          ...details,
+        });
+      }
+    }
+    setRows([...next.values()].sort((a, b) => Number(b.blockNumber - a.blockNumber) || b.logIndex - a.logIndex));
+  }, [publicClient, address, contracts]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadActivity()
+      .catch((err) => !cancelled && onError(`Could not load activity: ${(err as Error).message}`))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadActivity, refreshKey, reloads, onError]);
+
+  const visibleRows = rows.filter((row) =>
+    view === 'all' ? true : view === 'transfers' ? row.kind === 'transfer' : row.kind !== 'transfer'
+  );
+
+  const decryptRow = async (row: ActivityRow) => {
+    const { handle, contractAddress, unit } = row.encrypted ?? {};
+    if (!handle || !contractAddress) {
+      return;
+    }
+
+    try {
+      setDecrypting(row.id);
+      const clearValue = (await decrypt([{ handle, contractAddress }]))[handle];
+      const readable = unit === 'ETH' ? formatEther(clearValue) : formatUnits(clearValue, 6);
+      setDecrypted((current) => ({ ...current, [handle]: `${readable} ${unit}` }));
+    } catch (err) {
+      onError(`Decrypt failed: ${(err as Error).message}`);
+    } finally {
+      setDecrypting('');
+    }
+  };
+
+  return (
+    <div className="card activity-card">
+      <div className="action-head">
+        <div>
+          <p className="eyebrow">History</p>
+          <h3>Your activity</h3>
+        </div>
+        <button className="ghost-btn" onClick={() => setReloads((count) => count + 1)} disabled={loading || !address}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      <div className="activity-views">
+        {VIEWS.map(({ id, label }) => (
+          <button key={id} className={`activity-view ${view === id ? 'active' : ''}`} onClick={() => setView(id)}>
+            {label}
+          </button>
+        ))}
+      </div>
+      {!address ? (
+        <p className="muted">Connect your wallet to see your stakes, claims, withdrawals and transfers.</p>
+      ) : visibleRows.length === 0 ? (
+        <p className="muted">{loading ? 'Reading events...' : 'No activity in the last week.'}</p>
+      ) : (
+        <ol className="activity-list">
+          {visibleRows.map((row) => (
+            <li key={row.id} className={`activity-row ${row.kind}`}>
+              <div className="activity-main">
+                <span className="activity-title">{row.title}</span>
+                {explorerUrl ? (
+                  <a
+                    className="activity-meta"
+                    href={`${explorerUrl}/tx/${row.transactionHash}`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {formatWhen(row)}
+                  </a>
+                ) : (
+                  <span className="activity-meta">{formatWhen(row)}</span>
+                )}
+              </div>
+              <div className="card-actions">
+                {row.publicValue && <span className="plaintext-value">{row.publicValue}</span>}
+                {row.encrypted && (
+                  <span className="handle-chip small">
+                    {row.encrypted.handle.slice(0, 8)}...{row.encrypted.handle.slice(-6)}
+                  </span>
+                )}
+                {row.encrypted &&
+                  (decrypted[row.encrypted.handle] ? (
+                    <span className="plaintext-value">{decrypted[row.encrypted.handle]}</span>
+                  ) : row.encrypted.contractAddress ? (
+                    <button
+                      className="ghost-btn"
+                      onClick={() => decryptRow(row)}
+                      disabled={decryptDisabled || decrypting !== ''}
+                    >
+                      {decrypting === row.id ? 'Decrypting...' : 'Decrypt'}
+                    </button>
+                  ) : (
+                    <small className="muted">Held by the vault</small>
+                  ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,65 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useAccount, useReadContract } from 'wagmi';
 import { Contract, ethers } from 'ethers';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { CUSDT_ABI, CUSDT_ADDRESS, SECRET_RATE_ABI, SECRET_RATE_ADDRESS } from '../config/contracts';
+import { useUserDecrypt, type DecryptRequest } from '../hooks/useUserDecrypt';
+import { useContractAddresses } from '../hooks/useContractAddresses';
+import { CUSDT_ABI, SECRET_RATE_ABI, type ContractAddresses } from '../config/contracts';
+import { ActivityTimeline } from './ActivityTimeline';
+import { encodeSignedAction, signAction, type SignedAction } from '../../../shared/signedActions';
 import '../styles/StakingApp.css';
 
-type ReadResult = readonly bigint[] | undefined;
+const DEPOSIT_DENOMINATION = ethers.parseEther('0.01');
+
+// Mirrors the SecretRate.PAUSE_* scopes.
+const PAUSE_SCOPES = [
+  { bit: 1, label: 'deposits' },
+  { bit: 2, label: 'claims' },
+  { bit: 4, label: 'withdrawals' },
+];
+
+// Mirrors SecretRate.lockTierTerms.
+const LOCK_TIERS = [
+  { tier: 0, label: 'No lock · 1x' },
+  { tier: 1, label: '30 days · 1.25x' },
+  { tier: 2, label: '90 days · 1.5x' },
+  { tier: 3, label: '180 days · 2x' },
+];
+
+function formatCountdown(seconds: number) {
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  return `${days}d ${hours}h ${minutes}m`;
+}
 
 export function SecretRateApp() {
+  const contracts = useContractAddresses();
+
+  if (!contracts) {
+    return (
+      <div className="staking-shell">
+        <div className="status-banner paused-banner">
+          SecretRate is not deployed on this network. Switch your wallet to a supported chain.
+        </div>
+      </div>
+    );
+  }
+
+  // Keyed by address so switching chains resets every read, input and decrypted value.
+  return <StakingDashboard key={contracts.SecretRate} contracts={contracts} />;
+}
+
+function StakingDashboard({ contracts }: { contracts: ContractAddresses }) {
+  const { SecretRate: secretRateAddress, ConfidentialUSDT: cusdtAddress } = contracts;
   const { address } = useAccount();
   const signerPromise = useEthersSigner();
   const { instance, isLoading: zamaLoading } = useZamaInstance();
+  const { decrypt } = useUserDecrypt(instance);
 
   const { data: stakeSnapshot, refetch: refetchStakeSnapshot } = useReadContract({
-    address: SECRET_RATE_ADDRESS,
+    address: secretRateAddress,
     abi: SECRET_RATE_ABI,
     functionName: 'stakeDetails',
     args: address ? [address] : undefined,
@@ -22,31 +67,65 @@ export function SecretRateApp() {
   });
 
   const { data: encryptedStake, refetch: refetchEncryptedStake } = useReadContract({
-    address: SECRET_RATE_ADDRESS,
+    address: secretRateAddress,
     abi: SECRET_RATE_ABI,
     functionName: 'getEncryptedStake',
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
 
-  const { data: pendingRewards, refetch: refetchPendingRewards } = useReadContract({
-    address: SECRET_RATE_ADDRESS,
+  const { data: encryptedRewards, refetch: refetchEncryptedRewards } = useReadContract({
+    address: secretRateAddress,
     abi: SECRET_RATE_ABI,
-    functionName: 'pendingRewards',
+    functionName: 'getEncryptedPendingRewards',
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
 
   const { data: withdrawalHandle, refetch: refetchWithdrawalHandle } = useReadContract({
-    address: SECRET_RATE_ADDRESS,
+    address: secretRateAddress,
     abi: SECRET_RATE_ABI,
     functionName: 'withdrawalHandle',
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
 
+  const { data: withdrawalExpiry, refetch: refetchWithdrawalExpiry } = useReadContract({
+    address: secretRateAddress,
+    abi: SECRET_RATE_ABI,
+    functionName: 'withdrawalExpiry',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address },
+  });
+
+  const { data: rewardRate, refetch: refetchRewardRate } = useReadContract({
+    address: secretRateAddress,
+    abi: SECRET_RATE_ABI,
+    functionName: 'rewardRate',
+  });
+
+  const { data: pausedScopes, refetch: refetchPausedScopes } = useReadContract({
+    address: secretRateAddress,
+    abi: SECRET_RATE_ABI,
+    functionName: 'pausedScopes',
+  });
+
+  const { data: shareVault } = useReadContract({
+    address: secretRateAddress,
+    abi: SECRET_RATE_ABI,
+    functionName: 'shareVault',
+  });
+
+  const { data: autoSweep, refetch: refetchAutoSweep } = useReadContract({
+    address: secretRateAddress,
+    abi: SECRET_RATE_ABI,
+    functionName: 'autoSweepEnabled',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address },
+  });
+
   const { data: cusdtBalance, refetch: refetchCusdtBalance } = useReadContract({
-    address: CUSDT_ADDRESS,
+    address: cusdtAddress,
     abi: CUSDT_ABI,
     functionName: 'confidentialBalanceOf',
     args: address ? [address] : undefined,
@@ -54,37 +133,57 @@ export function SecretRateApp() {
   });
 
   const [stakeAmount, setStakeAmount] = useState('0.25');
+  const [depositAmount, setDepositAmount] = useState('0.3');
+  const [withdrawAmount, setWithdrawAmount] = useState('0.1');
+  const [transferTo, setTransferTo] = useState('');
+  const [transferAmount, setTransferAmount] = useState('10');
+  const [lockTier, setLockTier] = useState(0);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
   const [status, setStatus] = useState('');
   const [staking, setStaking] = useState(false);
   const [claiming, setClaiming] = useState(false);
+  const [togglingSweep, setTogglingSweep] = useState(false);
+  const [signingAction, setSigningAction] = useState(false);
+  const [signedRequest, setSignedRequest] = useState('');
+  const [checkpointing, setCheckpointing] = useState(false);
   const [withdrawing, setWithdrawing] = useState(false);
+  const [transferring, setTransferring] = useState(false);
   const [decryptingStake, setDecryptingStake] = useState(false);
   const [decryptingCusdt, setDecryptingCusdt] = useState(false);
+  const [decryptingRewards, setDecryptingRewards] = useState(false);
+  const [decryptingAll, setDecryptingAll] = useState(false);
   const [decryptedStake, setDecryptedStake] = useState<string>('');
   const [decryptedCusdt, setDecryptedCusdt] = useState<string>('');
+  const [decryptedRewards, setDecryptedRewards] = useState<string>('');
+  const [activityKey, setActivityKey] = useState(0);
+
+  const plainStake = useMemo(() => stakeSnapshot?.[0] ?? 0n, [stakeSnapshot]);
+  const lockEnd = Number(stakeSnapshot?.[2] ?? 0n);
 
-  const plainStake = useMemo(() => {
-    const result = stakeSnapshot as ReadResult;
-    return result?.[0] ?? 0n;
-  }, [stakeSnapshot]);
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30_000);
+    return () => clearInterval(timer);
+  }, []);
 
-  const accruedRewards = useMemo(() => {
-    const result = stakeSnapshot as ReadResult;
-    return result?.[1] ?? 0n;
-  }, [stakeSnapshot]);
+  const sweepAvailable = !!shareVault && shareVault !== ethers.ZeroAddress;
+  const sweeping = sweepAvailable && !!autoSweep;
 
   const readableStake = ethers.formatEther(plainStake);
-  const readableAccrued = ethers.formatUnits(accruedRewards, 6);
-  const readablePending = ethers.formatUnits((pendingRewards as bigint | undefined) ?? 0n, 6);
+  const readableRate = rewardRate !== undefined ? ethers.formatUnits(rewardRate, 6) : '—';
 
   const refresh = async () => {
     await Promise.all([
       refetchStakeSnapshot?.(),
       refetchEncryptedStake?.(),
-      refetchPendingRewards?.(),
+      refetchEncryptedRewards?.(),
       refetchWithdrawalHandle?.(),
+      refetchWithdrawalExpiry?.(),
+      refetchRewardRate?.(),
+      refetchPausedScopes?.(),
+      refetchAutoSweep?.(),
       refetchCusdtBalance?.(),
     ]);
+    setActivityKey((key) => key + 1);
   };
 
   const handleStake = async () => {
@@ -97,17 +196,38 @@ export function SecretRateApp() {
       setStatus('No signer available.');
       return;
     }
+    if (!instance) {
+      setStatus('Relayer is still loading.');
+      return;
+    }
     const value = Number(stakeAmount);
     if (Number.isNaN(value) || value <= 0) {
       setStatus('Enter a valid amount of ETH.');
       return;
     }
+    const depositValue = Number(depositAmount || '0');
+    if (Number.isNaN(depositValue) || depositValue < 0) {
+      setStatus('Enter a valid deposit.');
+      return;
+    }
+    const depositWei = ethers.parseEther(depositAmount || '0');
+    if (depositWei % DEPOSIT_DENOMINATION !== 0n) {
+      setStatus('Deposits must be a multiple of 0.01 ETH.');
+      return;
+    }
 
     try {
       setStaking(true);
+      setStatus('Encrypting stake amount...');
+      const input = instance.createEncryptedInput(secretRateAddress, address);
+      input.add64(ethers.parseEther(stakeAmount));
+      const encrypted = await input.encrypt();
+
       setStatus('Sending stake transaction...');
-      const vault = new Contract(SECRET_RATE_ADDRESS, SECRET_RATE_ABI, signer);
-      const tx = await vault.stake({ value: ethers.parseEther(stakeAmount) });
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const tx = await vault.stakeEncryptedWithLock(encrypted.handles[0], encrypted.inputProof, lockTier, {
+        value: depositWei,
+      });
       await tx.wait();
       setStatus('Stake confirmed.');
       setDecryptedStake('');
@@ -132,12 +252,13 @@ export function SecretRateApp() {
 
     try {
       setClaiming(true);
-      setStatus('Claiming cUSDT yield...');
-      const vault = new Contract(SECRET_RATE_ADDRESS, SECRET_RATE_ABI, signer);
+      setStatus(sweeping ? 'Sweeping cUSDT yield into shares...' : 'Claiming cUSDT yield...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
       const tx = await vault.claimInterest();
       await tx.wait();
-      setStatus('Yield claimed.');
+      setStatus(sweeping ? 'Yield swept into scUSDT shares.' : 'Yield claimed.');
       setDecryptedCusdt('');
+      setDecryptedRewards('');
       await refresh();
     } catch (err) {
       setStatus(`Claim failed: ${(err as Error).message}`);
@@ -146,7 +267,116 @@ export function SecretRateApp() {
     }
   };
 
-  const handleWithdraw = async () => {
+  const handleTransfer = async () => {
+    if (!address) {
+      setStatus('Connect your wallet to send cUSDT.');
+      return;
+    }
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+    if (!instance) {
+      setStatus('Relayer is still loading.');
+      return;
+    }
+    if (!ethers.isAddress(transferTo)) {
+      setStatus('Enter a valid recipient address.');
+      return;
+    }
+    const value = Number(transferAmount);
+    if (Number.isNaN(value) || value <= 0) {
+      setStatus('Enter a valid amount of cUSDT.');
+      return;
+    }
+
+    try {
+      setTransferring(true);
+      setStatus('Encrypting transfer amount...');
+      const input = instance.createEncryptedInput(cusdtAddress, address);
+      input.add64(ethers.parseUnits(transferAmount, 6));
+      const encrypted = await input.encrypt();
+
+      setStatus('Sending cUSDT...');
+      const cusdt = new Contract(cusdtAddress, CUSDT_ABI, signer);
+      const tx = await cusdt['confidentialTransfer(address,bytes32,bytes)'](
+        transferTo,
+        encrypted.handles[0],
+        encrypted.inputProof
+      );
+      await tx.wait();
+      // ERC7984 sends nothing rather than reverting on a short balance; the transfer row shows what moved.
+      setStatus('Transfer confirmed. Decrypt it in your activity to see the amount that moved.');
+      setDecryptedCusdt('');
+      await refresh();
+    } catch (err) {
+      setStatus(`Transfer failed: ${(err as Error).message}`);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleSignAction = async (action: SignedAction) => {
+    if (!address) {
+      setStatus('Connect your wallet to sign.');
+      return;
+    }
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+
+    try {
+      setSigningAction(true);
+      setStatus('Sign the request in your wallet...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const request = await signAction(signer, {
+        action,
+        vault: secretRateAddress,
+        chainId: (await signer.provider.getNetwork()).chainId,
+        nonce: await vault.nonces(address),
+        deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+      });
+      const encoded = encodeSignedAction(request);
+      setSignedRequest(encoded);
+      await navigator.clipboard?.writeText(encoded).catch(() => undefined);
+      setStatus('Signed request copied. Hand it to a relayer within the hour; it needs no ETH from you.');
+    } catch (err) {
+      setStatus(`Signing failed: ${(err as Error).message}`);
+    } finally {
+      setSigningAction(false);
+    }
+  };
+
+  const handleToggleSweep = async (enabled: boolean) => {
+    if (!address) {
+      setStatus('Connect your wallet to change auto-sweep.');
+      return;
+    }
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+
+    try {
+      setTogglingSweep(true);
+      setStatus(enabled ? 'Enabling auto-sweep...' : 'Disabling auto-sweep...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const tx = await vault.setAutoSweep(enabled);
+      await tx.wait();
+      setStatus(enabled ? 'Auto-sweep enabled.' : 'Auto-sweep disabled.');
+      await refetchAutoSweep?.();
+    } catch (err) {
+      setStatus(`Auto-sweep update failed: ${(err as Error).message}`);
+    } finally {
+      setTogglingSweep(false);
+    }
+  };
+
+  const handleWithdraw = async (early: boolean) => {
     if (!address) {
       setStatus('Connect your wallet to withdraw.');
       return;
@@ -160,32 +390,20 @@ export function SecretRateApp() {
       setStatus('Relayer is still loading.');
       return;
     }
-    const stakeHandle = (await refetchEncryptedStake?.())?.data ?? encryptedStake;
-    if (!stakeHandle || stakeHandle === ethers.ZeroHash) {
+    const currentHandle = (await refetchEncryptedStake?.())?.data ?? encryptedStake;
+    if (!currentHandle || currentHandle === ethers.ZeroHash) {
       setStatus('No stake to withdraw.');
       return;
     }
 
     try {
       setWithdrawing(true);
-      setStatus('Requesting encrypted withdrawal...');
-      const vault = new Contract(SECRET_RATE_ADDRESS, SECRET_RATE_ABI, signer);
-      const requestTx = await vault.requestWithdraw();
+      setStatus(early ? 'Requesting early exit with penalty...' : 'Requesting encrypted withdrawal...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const requestTx = early ? await vault.requestEarlyWithdraw() : await vault.requestWithdraw();
       await requestTx.wait();
 
-      setStatus('Decrypting stake proof...');
-      const publicResult = await instance.publicDecrypt([stakeHandle]);
-      const clearValues = publicResult.clearValues as Record<string, string | number | bigint>;
-      const clearAmountRaw = clearValues[stakeHandle as string];
-      const clearAmount = BigInt(clearAmountRaw as string | number | bigint);
-
-      setStatus('Finalizing withdrawal on-chain...');
-      const finalizeTx = await vault.finalizeWithdraw(
-        stakeHandle,
-        clearAmount,
-        publicResult.decryptionProof
-      );
-      await finalizeTx.wait();
+      await finalizePendingWithdraw(vault);
       setStatus('Withdrawal complete.');
       setDecryptedStake('');
       await refresh();
@@ -196,9 +414,9 @@ export function SecretRateApp() {
     }
   };
 
-  const decryptStakeAmount = async () => {
-    if (!instance || !address || !encryptedStake || encryptedStake === ethers.ZeroHash) {
-      setStatus('No encrypted stake to decrypt.');
+  const handlePartialWithdraw = async () => {
+    if (!address) {
+      setStatus('Connect your wallet to withdraw.');
       return;
     }
     const signer = await signerPromise;
@@ -206,56 +424,98 @@ export function SecretRateApp() {
       setStatus('No signer available.');
       return;
     }
+    if (!instance) {
+      setStatus('Relayer is still loading.');
+      return;
+    }
+    const value = Number(withdrawAmount);
+    if (Number.isNaN(value) || value <= 0) {
+      setStatus('Enter a valid amount of ETH.');
+      return;
+    }
 
     try {
-      setDecryptingStake(true);
-      const keypair = instance.generateKeypair();
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const contractAddresses = [SECRET_RATE_ADDRESS];
-      const eip712 = instance.createEIP712(
-        keypair.publicKey,
-        contractAddresses,
-        startTimestamp,
-        durationDays
-      );
+      setWithdrawing(true);
+      setStatus('Encrypting withdrawal amount...');
+      const input = instance.createEncryptedInput(secretRateAddress, address);
+      input.add64(ethers.parseEther(withdrawAmount));
+      const encrypted = await input.encrypt();
+
+      setStatus('Requesting partial withdrawal...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const requestTx = await vault.requestPartialWithdraw(encrypted.handles[0], encrypted.inputProof);
+      await requestTx.wait();
 
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
+      const clearAmount = await finalizePendingWithdraw(vault);
+      setStatus(
+        clearAmount === 0n
+          ? 'Requested amount exceeds your stake; nothing was withdrawn.'
+          : `Withdrew ${ethers.formatEther(clearAmount)} ETH.`
       );
+      setDecryptedStake('');
+      await refresh();
+    } catch (err) {
+      setStatus(`Withdraw failed: ${(err as Error).message}`);
+    } finally {
+      setWithdrawing(false);
+    }
+  };
 
-      const result = await instance.userDecrypt(
-        [
-          {
-            handle: encryptedStake,
-            contractAddress: SECRET_RATE_ADDRESS,
-          },
-        ],
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        address,
-        startTimestamp,
-        durationDays
-      );
+  const handleEmergencyWithdraw = async () => {
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+    if (!instance) {
+      setStatus('Relayer is still loading.');
+      return;
+    }
 
-      const clearValue = result[encryptedStake as string];
-      setDecryptedStake(ethers.formatEther(clearValue.toString()));
+    try {
+      setWithdrawing(true);
+      setStatus('Requesting emergency exit...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const requestTx = await vault.emergencyWithdraw();
+      await requestTx.wait();
+
+      const clearAmount = await finalizePendingWithdraw(vault);
+      setStatus(`Emergency exit complete: withdrew ${ethers.formatEther(clearAmount)} ETH.`);
+      setDecryptedStake('');
+      await refresh();
     } catch (err) {
-      setStatus(`Decrypt failed: ${(err as Error).message}`);
+      setStatus(`Emergency exit failed: ${(err as Error).message}`);
     } finally {
-      setDecryptingStake(false);
+      setWithdrawing(false);
     }
   };
 
-  const decryptCusdtBalance = async () => {
-    if (!instance || !address || !cusdtBalance || cusdtBalance === ethers.ZeroHash) {
-      setStatus('No encrypted cUSDT to decrypt.');
+  const handleFinalizePending = async () => {
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+    if (!instance) {
+      setStatus('Relayer is still loading.');
       return;
     }
+
+    try {
+      setWithdrawing(true);
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const clearAmount = await finalizePendingWithdraw(vault);
+      setStatus(`Withdrew ${ethers.formatEther(clearAmount)} ETH.`);
+      setDecryptedStake('');
+      await refresh();
+    } catch (err) {
+      setStatus(`Withdraw failed: ${(err as Error).message}`);
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handleCancelWithdraw = async () => {
     const signer = await signerPromise;
     if (!signer) {
       setStatus('No signer available.');
@@ -263,42 +523,109 @@ export function SecretRateApp() {
     }
 
     try {
-      setDecryptingCusdt(true);
-      const keypair = instance.generateKeypair();
-      const startTimestamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '7';
-      const contractAddresses = [CUSDT_ADDRESS];
-      const eip712 = instance.createEIP712(
-        keypair.publicKey,
-        contractAddresses,
-        startTimestamp,
-        durationDays
-      );
+      setWithdrawing(true);
+      setStatus('Cancelling expired withdrawal...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const tx = await vault.cancelWithdraw();
+      await tx.wait();
+      setStatus('Withdrawal cancelled; your stake is encrypted under a fresh handle.');
+      setDecryptedStake('');
+      await refresh();
+    } catch (err) {
+      setStatus(`Cancel failed: ${(err as Error).message}`);
+    } finally {
+      setWithdrawing(false);
+    }
+  };
 
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message
-      );
+  const finalizePendingWithdraw = async (vault: Contract) => {
+    // Full exits fold in the idle vault balance and partial exits disclose their own handle, so read it back.
+    const pendingHandle = (await refetchWithdrawalHandle?.())?.data;
+    if (!pendingHandle || pendingHandle === ethers.ZeroHash) {
+      throw new Error('withdrawal handle not found');
+    }
 
-      const result = await instance.userDecrypt(
-        [
-          {
-            handle: cusdtBalance,
-            contractAddress: CUSDT_ADDRESS,
-          },
-        ],
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
-        address,
-        startTimestamp,
-        durationDays
-      );
+    setStatus('Decrypting withdrawal proof...');
+    const publicResult = await instance.publicDecrypt([pendingHandle]);
+    const clearValues = publicResult.clearValues as Record<string, string | number | bigint>;
+    const clearAmountRaw = clearValues[pendingHandle as string];
+    const clearAmount = BigInt(clearAmountRaw as string | number | bigint);
+
+    setStatus('Finalizing withdrawal on-chain...');
+    const finalizeTx = await vault.finalizeWithdraw(
+      pendingHandle,
+      clearAmount,
+      publicResult.decryptionProof
+    );
+    await finalizeTx.wait();
+    return clearAmount;
+  };
 
-      const clearValue = result[cusdtBalance as string];
-      setDecryptedCusdt(ethers.formatUnits(clearValue.toString(), 6));
+  const hasHandle = (handle: string | undefined): handle is string => !!handle && handle !== ethers.ZeroHash;
+
+  // Stake, yield and cUSDT balance in one relayer request, under the session's single signature.
+  const decryptAll = async () => {
+    const requests: DecryptRequest[] = [];
+    if (hasHandle(encryptedStake)) {
+      requests.push({ handle: encryptedStake, contractAddress: secretRateAddress });
+    }
+    if (hasHandle(encryptedRewards)) {
+      requests.push({ handle: encryptedRewards, contractAddress: secretRateAddress });
+    }
+    if (hasHandle(cusdtBalance)) {
+      requests.push({ handle: cusdtBalance, contractAddress: cusdtAddress });
+    }
+    if (!instance || !address || requests.length === 0) {
+      setStatus('Nothing encrypted to decrypt yet.');
+      return;
+    }
+
+    try {
+      setDecryptingAll(true);
+      const clearValues = await decrypt(requests);
+      if (hasHandle(encryptedStake)) {
+        setDecryptedStake(ethers.formatEther(clearValues[encryptedStake]));
+      }
+      if (hasHandle(encryptedRewards)) {
+        setDecryptedRewards(ethers.formatUnits(clearValues[encryptedRewards], 6));
+      }
+      if (hasHandle(cusdtBalance)) {
+        setDecryptedCusdt(ethers.formatUnits(clearValues[cusdtBalance], 6));
+      }
+    } catch (err) {
+      setStatus(`Decrypt failed: ${(err as Error).message}`);
+    } finally {
+      setDecryptingAll(false);
+    }
+  };
+
+  const decryptStakeAmount = async () => {
+    if (!instance || !address || !encryptedStake || encryptedStake === ethers.ZeroHash) {
+      setStatus('No encrypted stake to decrypt.');
+      return;
+    }
+
+    try {
+      setDecryptingStake(true);
+      const clearValues = await decrypt([{ handle: encryptedStake, contractAddress: secretRateAddress }]);
+      setDecryptedStake(ethers.formatEther(clearValues[encryptedStake]));
+    } catch (err) {
+      setStatus(`Decrypt failed: ${(err as Error).message}`);
+    } finally {
+      setDecryptingStake(false);
+    }
+  };
+
+  const decryptCusdtBalance = async () => {
+    if (!instance || !address || !cusdtBalance || cusdtBalance === ethers.ZeroHash) {
+      setStatus('No encrypted cUSDT to decrypt.');
+      return;
+    }
+
+    try {
+      setDecryptingCusdt(true);
+      const clearValues = await decrypt([{ handle: cusdtBalance, contractAddress: cusdtAddress }]);
+      setDecryptedCusdt(ethers.formatUnits(clearValues[cusdtBalance], 6));
     } catch (err) {
       setStatus(`Decrypt failed: ${(err as Error).message}`);
     } finally {
@@ -306,11 +633,69 @@ export function SecretRateApp() {
     }
   };
 
-  const hasStake = plainStake > 0n;
-  const hasPendingWithdraw = withdrawalHandle && withdrawalHandle !== ethers.ZeroHash;
+  const decryptRewards = async (rewardsHandle: string | undefined) => {
+    if (!instance || !address || !rewardsHandle || rewardsHandle === ethers.ZeroHash) {
+      setStatus('No encrypted rewards to decrypt.');
+      return;
+    }
+
+    try {
+      setDecryptingRewards(true);
+      const clearValues = await decrypt([{ handle: rewardsHandle, contractAddress: secretRateAddress }]);
+      setDecryptedRewards(ethers.formatUnits(clearValues[rewardsHandle], 6));
+    } catch (err) {
+      setStatus(`Decrypt failed: ${(err as Error).message}`);
+    } finally {
+      setDecryptingRewards(false);
+    }
+  };
+
+  const handleCheckpoint = async () => {
+    if (!address) {
+      setStatus('Connect your wallet to refresh yield.');
+      return;
+    }
+    const signer = await signerPromise;
+    if (!signer) {
+      setStatus('No signer available.');
+      return;
+    }
+
+    try {
+      setCheckpointing(true);
+      setStatus('Checkpointing live yield...');
+      const vault = new Contract(secretRateAddress, SECRET_RATE_ABI, signer);
+      const tx = await vault.checkpointRewards();
+      await tx.wait();
+      setStatus('Yield checkpointed.');
+      const refreshed = (await refetchEncryptedRewards?.())?.data;
+      await decryptRewards(refreshed);
+    } catch (err) {
+      setStatus(`Checkpoint failed: ${(err as Error).message}`);
+    } finally {
+      setCheckpointing(false);
+    }
+  };
+
+  const hasStake = plainStake > 0n || (!!encryptedStake && encryptedStake !== ethers.ZeroHash);
+  const hasPendingWithdraw = !!withdrawalHandle && withdrawalHandle !== ethers.ZeroHash;
+  const expiresAt = Number((withdrawalExpiry as bigint | undefined) ?? 0n);
+  const canCancelWithdraw = hasPendingWithdraw && expiresAt > 0 && Date.now() / 1000 >= expiresAt;
+  const isLocked = lockEnd > now;
+  const pausedMask = Number(pausedScopes ?? 0);
+  const pausedLabels = PAUSE_SCOPES.filter(({ bit }) => (pausedMask & bit) !== 0).map(({ label }) => label);
+  const depositsPaused = (pausedMask & 1) !== 0;
+  const claimsPaused = (pausedMask & 2) !== 0;
+  const withdrawalsPaused = (pausedMask & 4) !== 0;
 
   return (
     <div className="staking-shell">
+      {pausedLabels.length > 0 && (
+        <div className="status-banner paused-banner">
+          The vault has paused {pausedLabels.join(', ')}.
+          {withdrawalsPaused && ' The emergency exit below still returns your full stake.'}
+        </div>
+      )}
       <div className="grid">
         <div className="card hero-card">
           <div className="card-head">
@@ -322,25 +707,49 @@ export function SecretRateApp() {
               {encryptedStake ? `${encryptedStake.slice(0, 8)}...${encryptedStake.slice(-6)}` : '—'}
             </span>
           </div>
-          <p className="metric">{hasStake ? `${readableStake} ETH` : '0 ETH'}</p>
+          <p className="metric">{hasStake ? (plainStake > 0n ? `${readableStake} ETH public` : 'Encrypted') : '0 ETH'}</p>
           <div className="card-actions">
             <button className="ghost-btn" onClick={decryptStakeAmount} disabled={decryptingStake || zamaLoading}>
               {decryptingStake ? 'Decrypting...' : 'Decrypt stake'}
             </button>
             {decryptedStake && <span className="plaintext-value">{decryptedStake} ETH</span>}
+            <button className="ghost-btn" onClick={decryptAll} disabled={decryptingAll || zamaLoading}>
+              {decryptingAll ? 'Decrypting...' : 'Decrypt all'}
+            </button>
           </div>
+          {isLocked && (
+            <small className="muted">
+              Locked for {formatCountdown(lockEnd - now)} (until {new Date(lockEnd * 1000).toLocaleString()}).
+            </small>
+          )}
         </div>
 
         <div className="card stat-card">
           <p className="eyebrow">Accrued yield</p>
-          <p className="metric">{readableAccrued} cUSDT</p>
-          <small className="muted">Stored rewards waiting to be claimed.</small>
+          <p className="handle-chip small">
+            {encryptedRewards ? `${encryptedRewards.slice(0, 8)}...${encryptedRewards.slice(-6)}` : '—'}
+          </p>
+          <div className="card-actions">
+            <button
+              className="ghost-btn"
+              onClick={() => decryptRewards(encryptedRewards)}
+              disabled={decryptingRewards || zamaLoading}
+            >
+              {decryptingRewards ? 'Decrypting...' : 'Decrypt yield'}
+            </button>
+            {decryptedRewards && <span className="plaintext-value">{decryptedRewards} cUSDT</span>}
+          </div>
+          <small className="muted">Encrypted rewards waiting to be claimed.</small>
         </div>
 
         <div className="card stat-card">
           <p className="eyebrow">Live pending</p>
-          <p className="metric">{readablePending} cUSDT</p>
-          <small className="muted">Streaming at 1 cUSDT / ETH / day.</small>
+          <div className="card-actions">
+            <button className="ghost-btn" onClick={handleCheckpoint} disabled={checkpointing || zamaLoading}>
+              {checkpointing ? 'Updating...' : 'Checkpoint & decrypt'}
+            </button>
+          </div>
+          <small className="muted">Streaming at {readableRate} cUSDT / ETH / day.</small>
         </div>
 
         <div className="card stat-card">
@@ -367,10 +776,31 @@ export function SecretRateApp() {
             <span className="chip subtle">FHE write</span>
           </div>
           <p className="muted">
-            Stake ETH to start earning cUSDT. Principal stays encrypted; only you can reveal it.
+            Deposit ETH in 0.01 ETH steps, then stake an encrypted amount out of it. Only you can reveal how much.
           </p>
           <div className="input-row">
-            <label htmlFor="stakeAmount">Amount (ETH)</label>
+            <label htmlFor="depositAmount">Deposit (ETH, public)</label>
+            <input
+              id="depositAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={depositAmount}
+              onChange={(e) => setDepositAmount(e.target.value)}
+            />
+          </div>
+          <div className="input-row">
+            <label htmlFor="lockTier">Lock tier</label>
+            <select id="lockTier" value={lockTier} onChange={(e) => setLockTier(Number(e.target.value))}>
+              {LOCK_TIERS.map(({ tier, label }) => (
+                <option key={tier} value={tier}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="input-row">
+            <label htmlFor="stakeAmount">Stake (ETH, encrypted)</label>
             <div className="input-with-btn">
               <input
                 id="stakeAmount"
@@ -380,7 +810,7 @@ export function SecretRateApp() {
                 value={stakeAmount}
                 onChange={(e) => setStakeAmount(e.target.value)}
               />
-              <button onClick={handleStake} disabled={staking || zamaLoading}>
+              <button onClick={handleStake} disabled={staking || zamaLoading || depositsPaused}>
                 {staking ? 'Staking...' : 'Stake'}
               </button>
             </div>
@@ -395,10 +825,41 @@ export function SecretRateApp() {
             </div>
             <span className="chip accent">Yield</span>
           </div>
-          <p className="muted">Harvest accrued rewards instantly as encrypted cUSDT.</p>
-          <button className="primary-btn" onClick={handleClaim} disabled={claiming || zamaLoading}>
-            {claiming ? 'Claiming...' : 'Claim now'}
-          </button>
+          <p className="muted">
+            {sweeping
+              ? 'Accrued rewards are deposited into the share vault as encrypted scUSDT shares (1:1, no extra yield), by you or any keeper.'
+              : 'Harvest accrued rewards instantly as encrypted cUSDT.'}
+          </p>
+          {sweepAvailable && (
+            <label className="toggle-row">
+              <input
+                type="checkbox"
+                checked={!!autoSweep}
+                onChange={(event) => handleToggleSweep(event.target.checked)}
+                disabled={togglingSweep || !address}
+              />
+              Sweep yield into scUSDT shares
+            </label>
+          )}
+          <div className="card-actions">
+            <button className="primary-btn" onClick={handleClaim} disabled={claiming || zamaLoading || claimsPaused}>
+              {claiming
+                ? sweeping
+                  ? 'Sweeping...'
+                  : 'Claiming...'
+                : sweeping
+                  ? 'Sweep now'
+                  : 'Claim now'}
+            </button>
+            <button
+              className="ghost-btn"
+              onClick={() => handleSignAction('ClaimInterest')}
+              disabled={signingAction || claimsPaused || !address}
+            >
+              Sign gasless claim
+            </button>
+          </div>
+          {signedRequest && <p className="muted handle-note">Signed request: {signedRequest}</p>}
         </div>
 
         <div className="card action-card">
@@ -410,19 +871,125 @@ export function SecretRateApp() {
             <span className="chip warning">{hasPendingWithdraw ? 'Awaiting proof' : 'Two step'}</span>
           </div>
           <p className="muted">
-            We decrypt your encrypted principal via the relayer, then release ETH on-chain once the proof is verified.
+            We decrypt the amount leaving the vault via the relayer, then release ETH on-chain once the proof is verified.
+            A partial exit only discloses the withdrawn amount; the rest stays encrypted and keeps earning.
           </p>
-          <button className="danger-btn" onClick={handleWithdraw} disabled={withdrawing || zamaLoading || !hasStake}>
-            {withdrawing ? 'Processing...' : 'Request & finalize'}
-          </button>
-          {withdrawalHandle && withdrawalHandle !== ethers.ZeroHash ? (
+          <div className="input-row">
+            <label htmlFor="withdrawAmount">Partial amount (ETH, encrypted)</label>
+            <div className="input-with-btn">
+              <input
+                id="withdrawAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+              />
+              <button
+                onClick={handlePartialWithdraw}
+                disabled={withdrawing || zamaLoading || !hasStake || hasPendingWithdraw || isLocked || withdrawalsPaused}
+              >
+                {withdrawing ? 'Processing...' : 'Withdraw part'}
+              </button>
+            </div>
+          </div>
+          {withdrawalsPaused ? (
+            <button
+              className="danger-btn"
+              onClick={handleEmergencyWithdraw}
+              disabled={withdrawing || zamaLoading || !hasStake}
+            >
+              {withdrawing ? 'Processing...' : isLocked ? 'Emergency exit (10% penalty)' : 'Emergency exit'}
+            </button>
+          ) : hasPendingWithdraw ? (
+            <div className="card-actions">
+              <button className="danger-btn" onClick={handleFinalizePending} disabled={withdrawing || zamaLoading}>
+                {withdrawing ? 'Processing...' : 'Finalize pending'}
+              </button>
+              <button className="ghost-btn" onClick={handleCancelWithdraw} disabled={withdrawing || !canCancelWithdraw}>
+                Cancel request
+              </button>
+            </div>
+          ) : (
+            <div className="card-actions">
+              <button
+                className="danger-btn"
+                onClick={() => handleWithdraw(isLocked)}
+                disabled={withdrawing || zamaLoading || !hasStake}
+              >
+                {withdrawing ? 'Processing...' : isLocked ? 'Exit early (10% penalty)' : 'Withdraw everything'}
+              </button>
+              {!isLocked && (
+                <button
+                  className="ghost-btn"
+                  onClick={() => handleSignAction('RequestWithdraw')}
+                  disabled={signingAction || !hasStake}
+                >
+                  Sign gasless withdraw
+                </button>
+              )}
+            </div>
+          )}
+          {hasPendingWithdraw ? (
             <p className="muted handle-note">
               Pending handle: {withdrawalHandle.slice(0, 10)}...{withdrawalHandle.slice(-6)}
+              {expiresAt > 0 &&
+                (canCancelWithdraw
+                  ? ' · expired, you can cancel it'
+                  : ` · cancellable after ${new Date(expiresAt * 1000).toLocaleString()}`)}
             </p>
           ) : null}
         </div>
+
+        <div className="card action-card">
+          <div className="action-head">
+            <div>
+              <p className="eyebrow">Send</p>
+              <h3>Transfer cUSDT</h3>
+            </div>
+            <span className="chip subtle">FHE write</span>
+          </div>
+          <p className="muted">
+            The amount is encrypted in your browser. Only you and the recipient can decrypt it; the addresses stay
+            public.
+          </p>
+          <div className="input-row">
+            <label htmlFor="transferTo">Recipient</label>
+            <input
+              id="transferTo"
+              type="text"
+              placeholder="0x..."
+              value={transferTo}
+              onChange={(e) => setTransferTo(e.target.value.trim())}
+            />
+          </div>
+          <div className="input-row">
+            <label htmlFor="transferAmount">Amount (cUSDT, encrypted)</label>
+            <div className="input-with-btn">
+              <input
+                id="transferAmount"
+                type="number"
+                min="0"
+                step="0.000001"
+                value={transferAmount}
+                onChange={(e) => setTransferAmount(e.target.value)}
+              />
+              <button onClick={handleTransfer} disabled={transferring || zamaLoading || !address}>
+                {transferring ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+          </div>
+        </div>
       </div>
 
+      <ActivityTimeline
+        contracts={contracts}
+        refreshKey={activityKey}
+        decryptDisabled={zamaLoading || !instance}
+        decrypt={decrypt}
+        onError={setStatus}
+      />
+
       {status && <div className="status-banner">{status}</div>}
     </div>
   );
@@ -0,0 +1,50 @@
+import { JsonRpcProvider } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, type FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { hardhat, sepolia } from "wagmi/chains";
+
+// Gateway contracts the Hardhat FHEVM mock signs input proofs and decryptions for (@fhevm/hardhat-plugin constants).
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+type RelayerMetadata = {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+};
+
+async function createRelayerInstance(): Promise<FhevmInstance> {
+  await initSDK();
+  return createInstance(SepoliaConfig);
+}
+
+// `npx hardhat node` runs the FHEVM mock and answers the relayer calls (input proofs, user and public decryption)
+// over JSON-RPC. The mock library is only loaded when the wallet is on the local chain.
+async function createMockInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new JsonRpcProvider(hardhat.rpcUrls.default.http[0]);
+  const metadata: RelayerMetadata = await provider.send("fhevm_relayer_metadata", []);
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+      verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+    },
+    // Signers and thresholds are read from the verifier contracts on the node.
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} },
+  );
+}
+
+// How to build the FHE instance for each chain the app can connect to.
+export const FHE_INSTANCE_FACTORIES: Record<number, () => Promise<FhevmInstance>> = {
+  [sepolia.id]: createRelayerInstance,
+  [hardhat.id]: createMockInstance,
+};
@@ -1,9 +1,13 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import type { Chain } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+
+// The dev server can also talk to a local `npx hardhat node` running the FHEVM mock.
+const chains: readonly [Chain, ...Chain[]] = import.meta.env.DEV ? [sepolia, hardhat] : [sepolia];
 
 export const config = getDefaultConfig({
   appName: 'SecretRate',
   projectId: 'b8a6a4a02c0e4c6f9af4c449601aa9df',
-  chains: [sepolia],
+  chains,
   ssr: false,
 });
@@ -0,0 +1,19 @@
+import { useAccount, useChainId } from "wagmi";
+import { CONTRACT_ADDRESSES, type ContractAddresses, type SupportedChainId } from "../config/contracts";
+
+function isSupportedChain(chainId: number): chainId is SupportedChainId {
+  return chainId in CONTRACT_ADDRESSES;
+}
+
+// The wallet's chain, or the default chain before connecting.
+export function useActiveChainId() {
+  const { chainId: connectedChainId } = useAccount();
+  const defaultChainId = useChainId();
+  return connectedChainId ?? defaultChainId;
+}
+
+// Addresses on the active chain; undefined where nothing is deployed.
+export function useContractAddresses(): ContractAddresses | undefined {
+  const chainId = useActiveChainId();
+  return isSupportedChain(chainId) ? CONTRACT_ADDRESSES[chainId] : undefined;
+}
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAccount } from "wagmi";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { useEthersSigner } from "./useEthersSigner";
+import { useActiveChainId, useContractAddresses } from "./useContractAddresses";
+
+const STORAGE_KEY = "secretrate.userDecryptSession";
+const SESSION_DAYS = 1;
+// Stop using a session a little before it expires so a decryption never races the deadline.
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export type DecryptRequest = {
+  handle: string;
+  contractAddress: string;
+};
+
+// The decryption keypair and the wallet's EIP-712 grant for it. The private key only decrypts handles the wallet is
+// allowed to read, and only on these contracts until the grant expires; it lives in session storage so one signature
+// covers the whole tab.
+type DecryptSession = {
+  account: string;
+  chainId: number;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+function readSession(): DecryptSession | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DecryptSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isUsable(session: DecryptSession, account: string, chainId: number, contractAddresses: string[]) {
+  const expiresAt = session.startTimestamp + session.durationDays * 86_400 - EXPIRY_MARGIN_SECONDS;
+  return (
+    session.account.toLowerCase() === account.toLowerCase() &&
+    session.chainId === chainId &&
+    contractAddresses.every((address) => session.contractAddresses.includes(address)) &&
+    Date.now() / 1000 < expiresAt
+  );
+}
+
+/**
+ * User decryption with one signature per wallet session. The first call signs a grant covering SecretRate and cUSDT
+ * on the active chain; later calls reuse it until it expires or the account or chain changes. Every handle passed to
+ * `decrypt` goes to the relayer in a single `userDecrypt` request.
+ */
+export function useUserDecrypt(instance: FhevmInstance | null | undefined) {
+  const { address } = useAccount();
+  const chainId = useActiveChainId();
+  const contracts = useContractAddresses();
+  const signerPromise = useEthersSigner();
+  const pendingSession = useRef<Promise<DecryptSession> | null>(null);
+
+  // A stored session for another wallet or chain is dropped as soon as the wallet switches.
+  useEffect(() => {
+    pendingSession.current = null;
+    const session = readSession();
+    if (session && (session.account.toLowerCase() !== address?.toLowerCase() || session.chainId !== chainId)) {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }, [address, chainId]);
+
+  const clearSession = useCallback(() => {
+    pendingSession.current = null;
+    sessionStorage.removeItem(STORAGE_KEY);
+  }, []);
+
+  const getSession = useCallback(async () => {
+    if (!instance || !address || !contracts) {
+      throw new Error("Connect your wallet to decrypt.");
+    }
+    const contractAddresses = [contracts.SecretRate, contracts.ConfidentialUSDT];
+
+    const stored = readSession();
+    if (stored && isUsable(stored, address, chainId, contractAddresses)) {
+      return stored;
+    }
+
+    pendingSession.current ??= (async () => {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error("No signer available.");
+      }
+
+      const keypair = instance.generateKeypair();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, SESSION_DAYS);
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message,
+      );
+
+      const session: DecryptSession = {
+        account: address,
+        chainId,
+        contractAddresses,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace("0x", ""),
+        startTimestamp,
+        durationDays: SESSION_DAYS,
+      };
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      return session;
+    })().finally(() => {
+      pendingSession.current = null;
+    });
+    return pendingSession.current;
+  }, [instance, address, chainId, contracts, signerPromise]);
+
+  /** Decrypts all `requests` in one relayer call and returns the clear values by handle. */
+  const decrypt = useCallback(
+    async (requests: DecryptRequest[]) => {
+      const session = await getSession();
+      const results = await instance!.userDecrypt(
+        requests,
+        session.privateKey,
+        session.publicKey,
+        session.signature,
+        session.contractAddresses,
+        session.account,
+        session.startTimestamp,
+        session.durationDays,
+      );
+
+      const clearValues: Record<string, bigint> = {};
+      for (const { handle } of requests) {
+        clearValues[handle] = BigInt(results[handle as `0x${string}`].toString());
+      }
+      return clearValues;
+    },
+    [instance, getSession],
+  );
+
+  return { decrypt, clearSession };
+}
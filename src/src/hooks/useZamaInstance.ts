@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { FHE_INSTANCE_FACTORIES } from '../config/fhe';
+import { useActiveChainId } from './useContractAddresses';
 
 export function useZamaInstance() {
+  const chainId = useActiveChainId();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +15,13 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        const createFheInstance = FHE_INSTANCE_FACTORIES[chainId];
+        if (!createFheInstance) {
+          throw new Error(`No FHE provider for chain ${chainId}`);
+        }
+        const zamaInstance = await createFheInstance();
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -37,7 +43,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
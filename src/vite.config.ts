@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The EIP-712 signing helper in ../shared is shared with the Hardhat tasks.
+  server: { fs: { allow: ['.', '../shared'] } },
 })
@@ -0,0 +1,119 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { join, relative } from "path";
+
+// Deployments the app talks to, with the prefix of their exported ABI constant.
+const FRONTEND_CONTRACTS = {
+  SecretRate: "SECRET_RATE",
+  ConfidentialUSDT: "CUSDT",
+} as const;
+
+type FrontendContract = keyof typeof FRONTEND_CONTRACTS;
+type ChainAddresses = Record<FrontendContract, string>;
+
+const CONTRACT_NAMES = Object.keys(FRONTEND_CONTRACTS) as FrontendContract[];
+
+/** Reads the addresses of a previously generated module, so chains without local deployments survive an export. */
+function readExportedAddresses(file: string) {
+  const addresses = new Map<number, ChainAddresses>();
+  if (!existsSync(file)) {
+    return addresses;
+  }
+  const block = readFileSync(file, "utf8").match(/export const CONTRACT_ADDRESSES = \{([\s\S]*?)\n\} as const;/);
+  for (const [, chainId, body] of block?.[1].matchAll(/(\d+): \{([^}]*)\}/g) ?? []) {
+    const entries = [...body.matchAll(/(\w+): '(0x[0-9a-fA-F]{40})'/g)].map(([, name, address]) => [name, address]);
+    addresses.set(Number(chainId), Object.fromEntries(entries) as ChainAddresses);
+  }
+  return addresses;
+}
+
+function render(addresses: Map<number, ChainAddresses>, abis: Record<FrontendContract, unknown>) {
+  const chainIds = [...addresses.keys()].sort((a, b) => a - b);
+  const lines = [
+    "// Generated by `npx hardhat task:export-frontend` from hardhat-deploy deployments. Do not edit by hand.",
+    "",
+    "export const CONTRACT_ADDRESSES = {",
+  ];
+  for (const chainId of chainIds) {
+    lines.push(`  ${chainId}: {`);
+    for (const name of CONTRACT_NAMES) {
+      lines.push(`    ${name}: '${addresses.get(chainId)![name]}',`);
+    }
+    lines.push("  },");
+  }
+  lines.push(
+    "} as const;",
+    "",
+    "export type SupportedChainId = keyof typeof CONTRACT_ADDRESSES;",
+    "export type ContractAddresses = (typeof CONTRACT_ADDRESSES)[SupportedChainId];",
+    "",
+    `export const SUPPORTED_CHAIN_IDS = [${chainIds.join(", ")}] as const;`,
+  );
+  for (const name of CONTRACT_NAMES) {
+    lines.push("", `export const ${FRONTEND_CONTRACTS[name]}_ABI = ${JSON.stringify(abis[name], null, 2)} as const;`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Example:
+ *   - npx hardhat task:export-frontend
+ *   - npx hardhat task:export-frontend --networks sepolia
+ *   - npx hardhat task:export-frontend --prune
+ */
+task("task:export-frontend", "Writes the app's multi-chain contract config from hardhat-deploy deployments")
+  .addOptionalParam("out", "Module to write", "src/src/config/contracts.ts")
+  .addOptionalParam("networks", "Comma-separated deployments/<network> folders to export (default: all)")
+  .addFlag("prune", "Drop chains that are in the current module but have no local deployments")
+  .setAction(async (args: TaskArguments, hre) => {
+    const deploymentsDir = hre.config.paths.deployments;
+    const out = join(hre.config.paths.root, args.out);
+    const wanted: string[] | undefined = args.networks?.split(",").map((network: string) => network.trim());
+
+    const networks = existsSync(deploymentsDir)
+      ? readdirSync(deploymentsDir)
+          .filter((network) => existsSync(join(deploymentsDir, network, ".chainId")))
+          .filter((network) => !wanted || wanted.includes(network))
+          .sort()
+      : [];
+    const missing = wanted?.filter((network) => !networks.includes(network)) ?? [];
+    if (missing.length > 0) {
+      throw new Error(`No deployments for ${missing.join(", ")} in ${relative(process.cwd(), deploymentsDir)}`);
+    }
+    if (networks.length === 0) {
+      throw new Error(`No deployments found in ${relative(process.cwd(), deploymentsDir)}; run npx hardhat deploy`);
+    }
+
+    const addresses = args.prune ? new Map<number, ChainAddresses>() : readExportedAddresses(out);
+    const abis = {} as Record<FrontendContract, unknown>;
+    const abiSource = {} as Record<FrontendContract, string>;
+    for (const network of networks) {
+      const chainId = Number(readFileSync(join(deploymentsDir, network, ".chainId"), "utf8").trim());
+      const chain = {} as ChainAddresses;
+      for (const name of CONTRACT_NAMES) {
+        const file = join(deploymentsDir, network, `${name}.json`);
+        if (!existsSync(file)) {
+          throw new Error(`deployments/${network} has no ${name}; redeploy it or leave it out with --networks`);
+        }
+        const deployment = JSON.parse(readFileSync(file, "utf8"));
+        chain[name] = deployment.address;
+
+        // One ABI serves every chain, so a network still running an older implementation must not be exported.
+        if (abis[name] !== undefined && JSON.stringify(abis[name]) !== JSON.stringify(deployment.abi)) {
+          throw new Error(
+            `${name} ABI differs between deployments/${abiSource[name]} and deployments/${network}; ` +
+              "upgrade the stale network or leave it out with --networks",
+          );
+        }
+        abis[name] = deployment.abi;
+        abiSource[name] = network;
+      }
+      addresses.set(chainId, chain);
+    }
+
+    writeFileSync(out, render(addresses, abis));
+    console.log(
+      `Wrote ${relative(process.cwd(), out)} for chains ${[...addresses.keys()].sort((a, b) => a - b).join(", ")}`,
+    );
+  });
@@ -0,0 +1,62 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { join } from "path";
+import { createPositionIndexer } from "../indexer/positionIndexer";
+import { openPositionStore } from "../indexer/positionStore";
+import { createIndexerServer } from "../indexer/server";
+import { DEFAULT_CONFIRMATIONS } from "../shared/confirmations";
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:position-indexer
+ *   - npx hardhat --network sepolia task:position-indexer --confirmations 2 --port 4000
+ *   - npx hardhat --network sepolia task:position-indexer --once
+ */
+task("task:position-indexer", "Indexes SecretRate position history into SQLite and serves it as a JSON API")
+  .addOptionalParam("database", "SQLite file to index into")
+  .addOptionalParam(
+    "confirmations",
+    `Blocks to stay behind the chain head (default: ${DEFAULT_CONFIRMATIONS}, or 0 on a local chain)`,
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("pollInterval", "Seconds between polls", 15, types.int)
+  .addOptionalParam("port", "Port of the JSON API", 4000, types.int)
+  .addFlag("once", "Index up to the current block and exit without serving the API")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const cusdtDeployment = await deployments.get("ConfidentialUSDT");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+    const cusdt = await ethers.getContractAt("ConfidentialUSDT", cusdtDeployment.address);
+
+    const database = args.database ?? join(".indexer", `positions-${chainId}.sqlite`);
+    const store = openPositionStore(database);
+    const indexer = createPositionIndexer({
+      vault,
+      cusdt,
+      store,
+      fromBlock: cusdtDeployment.receipt?.blockNumber ?? 0,
+      confirmations: args.confirmations,
+      pollIntervalMs: args.pollInterval * 1000,
+    });
+
+    console.log(`Position indexer for SecretRate ${vaultDeployment.address} (database: ${database})`);
+    if (args.once) {
+      await indexer.poll();
+      console.log(JSON.stringify(store.stats(), null, 2));
+      store.close();
+      return;
+    }
+
+    const server = createIndexerServer(store);
+    server.listen(args.port, () => console.log(`Serving http://localhost:${args.port}/stats`));
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    await indexer.run(controller.signal);
+    server.close();
+    store.close();
+  });
@@ -1,48 +1,549 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { isAddress, parseEther } from "ethers";
+import { readFileSync } from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { SignedAction, decodeSignedAction, encodeSignedAction, signAction, submitArgs } from "../shared/signedActions";
+import type { SecretRate } from "../types";
 
-task("task:vault-address", "Prints deployed SecretRate and cUSDT addresses").setAction(async (_args, hre) => {
+/** Registers a task with the `--json` flag every SecretRate task accepts. */
+function vaultTask(name: string, description: string) {
+  return task(name, description).addFlag("json", "Print only the result, as a JSON object");
+}
+
+/**
+ * Task output. Without `--json` the progress lines are printed and the result is not; with it, only the result is
+ * printed, with bigints as decimal strings (ETH in wei, cUSDT in 6-decimal units, times in Unix seconds).
+ */
+function taskOutput(args: TaskArguments) {
+  return {
+    log(message: string) {
+      if (!args.json) {
+        console.log(message);
+      }
+    },
+    result(value: Record<string, unknown>) {
+      if (args.json) {
+        console.log(JSON.stringify(value, (_key, field) => (typeof field === "bigint" ? field.toString() : field), 2));
+      }
+    },
+  };
+}
+
+type TaskOutput = ReturnType<typeof taskOutput>;
+
+const DEPLOYMENT_NAMES = [
+  "SecretRate",
+  "ConfidentialUSDT",
+  "ConfidentialShareVault",
+  "ConfidentialStakedETH",
+  "CUSDTRedemption",
+] as const;
+
+vaultTask("task:vault-address", "Prints deployed SecretRate contract addresses").setAction(async (args, hre) => {
   const { deployments } = hre;
-  const vaultDeployment = await deployments.get("SecretRate");
-  const cusdtDeployment = await deployments.get("ConfidentialUSDT");
-  console.log(`SecretRate: ${vaultDeployment.address}`);
-  console.log(`ConfidentialUSDT: ${cusdtDeployment.address}`);
+  const out = taskOutput(args);
+
+  const addresses: Record<string, string> = {};
+  for (const name of DEPLOYMENT_NAMES) {
+    addresses[name] = (await deployments.get(name)).address;
+    out.log(`${name}: ${addresses[name]}`);
+  }
+  out.result(addresses);
 });
 
-task("task:stake-eth", "Stake ETH into SecretRate")
-  .addParam("amount", "Amount in ETH (e.g. 0.5)")
+vaultTask("task:stake-eth", "Stake an encrypted amount of ETH into SecretRate")
+  .addParam("amount", "Amount in ETH to stake (e.g. 0.5)")
+  .addParam(
+    "deposit",
+    "ETH to deposit first, in DEPOSIT_DENOMINATION steps (0 to stake from the vault balance). Sent in clear, so pick " +
+      "a round bucket that does not track the amount",
+  )
+  .addOptionalParam("lockTier", "Lock tier for boosted yield: 0 none, 1 = 30d, 2 = 90d, 3 = 180d", "0")
   .setAction(async (args: TaskArguments, hre) => {
-    const { ethers, deployments } = hre;
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
     const value = ethers.parseEther(args.amount);
     const [signer] = await ethers.getSigners();
 
     const vaultDeployment = await deployments.get("SecretRate");
     const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
 
-    const tx = await vault.connect(signer).stake({ value });
-    console.log(`Stake tx: ${tx.hash}`);
+    const deposit = ethers.parseEther(args.deposit);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vaultDeployment.address, signer.address)
+      .add64(value)
+      .encrypt();
+
+    const lockTier = parseInt(args.lockTier);
+    const tx = await vault
+      .connect(signer)
+      .stakeEncryptedWithLock(encryptedInput.handles[0], encryptedInput.inputProof, lockTier, { value: deposit });
+    out.log(`Stake tx: ${tx.hash}`);
+    await tx.wait();
+    out.log(`Deposited ${ethers.formatEther(deposit)} ETH and staked an encrypted ${args.amount} ETH`);
+    const [, , lockEnd] = await vault.stakeDetails(signer.address);
+    if (lockTier !== 0) {
+      out.log(`Position locked until ${new Date(Number(lockEnd) * 1000).toISOString()}`);
+    }
+    out.result({ tx: tx.hash, user: signer.address, deposit, amount: value, lockTier, lockEnd });
+  });
+
+vaultTask("task:stake-for", "Stake ETH into another address's SecretRate position")
+  .addParam("beneficiary", "Address whose position receives the stake")
+  .addParam("amount", "Amount in ETH to stake (e.g. 0.5)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const amount = ethers.parseEther(args.amount);
+    const tx = await vault.connect(signer).stakeFor(args.beneficiary, { value: amount });
+    out.log(`Stake tx: ${tx.hash}`);
     await tx.wait();
-    console.log(`Staked ${args.amount} ETH`);
+    out.log(`Staked ${args.amount} ETH for ${args.beneficiary}`);
+    out.result({ tx: tx.hash, beneficiary: args.beneficiary, amount });
+  });
+
+/** Parses `address,amountInEth` lines; blank lines, `#` comments and a leading header line are skipped. */
+function parseRecipients(csv: string) {
+  const recipients: { beneficiary: string; amount: bigint }[] = [];
+  csv.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) {
+      return;
+    }
+    const [address, amount] = line.split(",").map((field) => field.trim());
+    if (!isAddress(address) || amount === undefined) {
+      if (recipients.length === 0 && index === 0) {
+        return;
+      }
+      throw new Error(`Invalid recipient on line ${index + 1}, expected address,amountInEth: ${line}`);
+    }
+    recipients.push({ beneficiary: address, amount: parseEther(amount) });
+  });
+  return recipients;
+}
+
+vaultTask("task:stake-for-many", "Stake encrypted amounts into many SecretRate positions from a CSV of address,amount")
+  .addParam("file", "CSV file with one `address,amountInEth` line per beneficiary (a header line is allowed)")
+  .addParam(
+    "deposit",
+    "ETH to deposit first, in DEPOSIT_DENOMINATION steps (0 to stake from the vault balance). Sent in clear, so pick " +
+      "a round bucket that does not track the total",
+  )
+  .addOptionalParam("batchSize", "Beneficiaries per transaction", "16")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    const batchSize = Number(args.batchSize);
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(`Batch size must be a positive integer, got: ${args.batchSize}`);
+    }
+
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
+    const [signer] = await ethers.getSigners();
+    const recipients = parseRecipients(readFileSync(args.file, "utf8"));
+    if (recipients.length === 0) {
+      throw new Error(`No recipients in ${args.file}`);
+    }
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const total = recipients.reduce((sum, recipient) => sum + recipient.amount, 0n);
+    let deposit = ethers.parseEther(args.deposit);
+
+    const txs: string[] = [];
+    for (let start = 0; start < recipients.length; start += batchSize) {
+      const batch = recipients.slice(start, start + batchSize);
+      const input = fhevm.createEncryptedInput(vaultDeployment.address, signer.address);
+      batch.forEach((recipient) => input.add64(recipient.amount));
+      const encryptedInput = await input.encrypt();
+
+      // The whole deposit goes in with the first batch; later batches draw on what is left of it.
+      const tx = await vault.connect(signer).stakeForMany(
+        batch.map((recipient) => recipient.beneficiary),
+        encryptedInput.handles,
+        encryptedInput.inputProof,
+        { value: deposit },
+      );
+      out.log(`Batch ${start / batchSize + 1} tx: ${tx.hash}`);
+      txs.push(tx.hash);
+      await tx.wait();
+      deposit = 0n;
+    }
+    out.log(`Staked an encrypted ${ethers.formatEther(total)} ETH across ${recipients.length} positions`);
+    out.result({ txs, beneficiaries: recipients.length, total });
   });
 
-task("task:claim-yield", "Claim cUSDT yield from SecretRate").setAction(async (_args, hre) => {
+vaultTask("task:claim-yield", "Claim cUSDT yield from SecretRate").setAction(async (args, hre) => {
   const { ethers, deployments } = hre;
+  const out = taskOutput(args);
   const [signer] = await ethers.getSigners();
 
   const vaultDeployment = await deployments.get("SecretRate");
   const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
 
   const tx = await vault.connect(signer).claimInterest();
-  console.log(`Claim tx: ${tx.hash}`);
+  out.log(`Claim tx: ${tx.hash}`);
   await tx.wait();
+  out.result({ tx: tx.hash, user: signer.address });
 });
 
-task("task:decrypt-stake", "Decrypt the caller stake value")
+vaultTask("task:auto-sweep", "Opt in or out of sweeping claimed yield into the cUSDT share vault")
+  .addOptionalParam("enabled", "true to opt in, false to opt out", "true")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const enabled = args.enabled !== "false";
+    const tx = await vault.connect(signer).setAutoSweep(enabled);
+    out.log(`Auto-sweep tx: ${tx.hash}`);
+    await tx.wait();
+    out.log(`Auto-sweep ${enabled ? "enabled" : "disabled"} for ${signer.address}`);
+    out.result({ tx: tx.hash, user: signer.address, enabled });
+  });
+
+vaultTask("task:sweep-yield", "Sweep the yield of an opted-in user into the cUSDT share vault (callable by anyone)")
+  .addOptionalParam("user", "Account to sweep for (default: signer)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const user = args.user ?? signer.address;
+    const tx = await vault.connect(signer).sweepYield(user);
+    out.log(`Sweep tx: ${tx.hash}`);
+    await tx.wait();
+    out.result({ tx: tx.hash, user });
+  });
+
+vaultTask("task:set-operator", "Let an operator claim and start withdrawals for the signer until an expiry")
+  .addParam("operator", "Operator address")
+  .addOptionalParam("hours", "Approval lifetime in hours; 0 revokes the operator", "24")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const hours = Number(args.hours);
+    const latest = await ethers.provider.getBlock("latest");
+    const until = hours === 0 ? 0 : latest!.timestamp + Math.round(hours * 3600);
+    const tx = await vault.connect(signer).setOperator(args.operator, until);
+    out.log(`Set operator tx: ${tx.hash}`);
+    await tx.wait();
+    out.log(
+      until === 0
+        ? `Revoked operator ${args.operator}`
+        : `Operator ${args.operator} approved until ${new Date(until * 1000).toISOString()}`,
+    );
+    out.result({ tx: tx.hash, operator: args.operator, until });
+  });
+
+vaultTask("task:sign-action", "Sign a gasless claim or withdraw request for a relayer to submit")
+  .addParam("action", "claim or withdraw")
+  .addOptionalParam("minutes", "Minutes until the signature expires", "60")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const actions: Record<string, SignedAction> = { claim: "ClaimInterest", withdraw: "RequestWithdraw" };
+    const action = actions[args.action];
+    if (!action) {
+      throw new Error(`Unknown action "${args.action}", expected claim or withdraw`);
+    }
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+    const latest = await ethers.provider.getBlock("latest");
+
+    const request = await signAction(signer, {
+      action,
+      vault: vaultDeployment.address,
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      nonce: await vault.nonces(signer.address),
+      deadline: BigInt(latest!.timestamp + Math.round(Number(args.minutes) * 60)),
+    });
+    out.log(encodeSignedAction(request));
+    out.result(request);
+  });
+
+vaultTask("task:relay-action", "Submit a signed claim or withdraw request, paying the gas for the staker")
+  .addParam("request", "Signed request JSON from task:sign-action or the app")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers } = hre;
+    const out = taskOutput(args);
+    const [relayer] = await ethers.getSigners();
+
+    const request = decodeSignedAction(args.request);
+    const vault = await ethers.getContractAt("SecretRate", request.vault);
+    const tx =
+      request.action === "ClaimInterest"
+        ? await vault.connect(relayer)["claimInterestFor(address,uint256,bytes)"](...submitArgs(request))
+        : await vault.connect(relayer)["requestWithdrawFor(address,uint256,bytes)"](...submitArgs(request));
+    out.log(`Relay tx: ${tx.hash}`);
+    await tx.wait();
+    out.log(`Relayed ${request.action} for ${request.staker}`);
+    out.result({ tx: tx.hash, action: request.action, staker: request.staker });
+  });
+
+/** Public-decrypts `user`'s pending full or partial withdraw and submits `finalizeWithdraw` with the relayer proof. */
+async function finalizeWithdrawal(hre: HardhatRuntimeEnvironment, vault: SecretRate, user: string, out: TaskOutput) {
+  const { ethers, fhevm } = hre;
+  const [signer] = await ethers.getSigners();
+
+  const handle = await vault.withdrawalHandle(user);
+  if (handle === ethers.ZeroHash) {
+    throw new Error(`No pending withdraw for ${user}`);
+  }
+  const decryption = await fhevm.publicDecrypt([handle]);
+  const clearAmount = BigInt(decryption.clearValues[handle as `0x${string}`]);
+  if (clearAmount === 0n) {
+    out.log("Requested amount exceeds the stake, finalizing an empty withdrawal");
+  }
+
+  const finalizeTx = await vault.connect(signer).finalizeWithdraw(handle, clearAmount, decryption.decryptionProof);
+  out.log(`Finalize tx: ${finalizeTx.hash}`);
+  await finalizeTx.wait();
+  out.log(`Withdrew ${ethers.formatEther(clearAmount)} ETH`);
+  return { finalizeTx: finalizeTx.hash, handle, amount: clearAmount };
+}
+
+vaultTask("task:request-withdraw", "Start a full withdraw by making the encrypted stake publicly decryptable")
+  .addOptionalParam("user", "Staker to withdraw for as their operator (default: signer)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+    const user = args.user ?? signer.address;
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const tx =
+      user === signer.address
+        ? await vault.connect(signer).requestWithdraw()
+        : await vault.connect(signer)["requestWithdrawFor(address)"](user);
+    out.log(`Request tx: ${tx.hash}`);
+    await tx.wait();
+
+    const handle = await vault.withdrawalHandle(user);
+    const cancellableAt = await vault.withdrawalExpiry(user);
+    out.log(`Disclosed withdraw handle: ${handle}`);
+    out.log(
+      `Finalize with task:finalize-withdraw; cancellable from ${new Date(Number(cancellableAt) * 1000).toISOString()}`,
+    );
+    out.result({ tx: tx.hash, user, handle, cancellableAt });
+  });
+
+vaultTask("task:finalize-withdraw", "Finalize a pending withdraw with a public decryption proof (callable by anyone)")
+  .addOptionalParam("user", "Staker whose withdraw to finalize (default: signer)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+    const user = args.user ?? signer.address;
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    out.result({ user, ...(await finalizeWithdrawal(hre, vault, user, out)) });
+  });
+
+vaultTask("task:partial-withdraw", "Withdraw an encrypted amount of staked ETH from SecretRate")
+  .addParam("amount", "Amount in ETH to withdraw (e.g. 0.1)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vaultDeployment.address, signer.address)
+      .add64(ethers.parseEther(args.amount))
+      .encrypt();
+
+    const requestTx = await vault
+      .connect(signer)
+      .requestPartialWithdraw(encryptedInput.handles[0], encryptedInput.inputProof);
+    out.log(`Request tx: ${requestTx.hash}`);
+    await requestTx.wait();
+
+    const finalized = await finalizeWithdrawal(hre, vault, signer.address, out);
+    out.result({ requestTx: requestTx.hash, user: signer.address, ...finalized });
+  });
+
+vaultTask("task:fund-redemptions", "Send ETH to the cUSDT redemption treasury")
+  .addParam("amount", "Amount in ETH to add (e.g. 1)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const redemptionDeployment = await deployments.get("CUSDTRedemption");
+    const tx = await signer.sendTransaction({
+      to: redemptionDeployment.address,
+      value: ethers.parseEther(args.amount),
+    });
+    out.log(`Fund tx: ${tx.hash}`);
+    await tx.wait();
+
+    const reserves = await ethers.provider.getBalance(redemptionDeployment.address);
+    out.log(`Redemption treasury holds ${ethers.formatEther(reserves)} ETH`);
+    out.result({ tx: tx.hash, reserves });
+  });
+
+vaultTask("task:redeem-cusdt", "Escrow an encrypted amount of cUSDT and burn it for ETH from the redemption treasury")
+  .addParam("amount", "Amount of cUSDT to redeem (e.g. 25.5)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
+    const [signer] = await ethers.getSigners();
+
+    const redemptionDeployment = await deployments.get("CUSDTRedemption");
+    const redemption = await ethers.getContractAt("CUSDTRedemption", redemptionDeployment.address);
+    const cusdt = await ethers.getContractAt("ConfidentialUSDT", await redemption.cusdt());
+
+    // The request pulls the cUSDT into escrow, so the redemption contract has to be an operator for a moment
+    if (!(await cusdt.isOperator(signer.address, redemptionDeployment.address))) {
+      const latest = await ethers.provider.getBlock("latest");
+      const operatorTx = await cusdt.connect(signer).setOperator(redemptionDeployment.address, latest!.timestamp + 600);
+      out.log(`Operator tx: ${operatorTx.hash}`);
+      await operatorTx.wait();
+    }
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(redemptionDeployment.address, signer.address)
+      .add64(ethers.parseUnits(args.amount, 6))
+      .encrypt();
+
+    const requestTx = await redemption
+      .connect(signer)
+      .requestRedemption(encryptedInput.handles[0], encryptedInput.inputProof);
+    out.log(`Request tx: ${requestTx.hash}`);
+    const receipt = await requestTx.wait();
+
+    const requested = receipt!.logs
+      .map((log) => redemption.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "RedemptionRequested");
+    const handle: string = requested!.args.encryptedHandle;
+    out.log(`Redemption handle: ${handle}`);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearAmount = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    if (clearAmount === 0n) {
+      out.log("Requested amount exceeds the cUSDT balance, finalizing an empty redemption");
+    }
+
+    const finalizeTx = await redemption
+      .connect(signer)
+      .finalizeRedemption(handle, clearAmount, decryption.decryptionProof);
+    out.log(`Finalize tx: ${finalizeTx.hash}`);
+    await finalizeTx.wait();
+
+    const payout = (clearAmount * requested!.args.price) / 10n ** 6n;
+    out.log(`Redeemed ${ethers.formatUnits(clearAmount, 6)} cUSDT for ${ethers.formatEther(payout)} ETH`);
+    out.result({ requestTx: requestTx.hash, finalizeTx: finalizeTx.hash, handle, amount: clearAmount, payout });
+  });
+
+vaultTask("task:cancel-redemption", "Take back the escrowed cUSDT of a redemption that was not finalized in time")
+  .addParam("handle", "Encrypted handle emitted by RedemptionRequested")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const redemptionDeployment = await deployments.get("CUSDTRedemption");
+    const redemption = await ethers.getContractAt("CUSDTRedemption", redemptionDeployment.address);
+
+    const [holder, , requestedAt] = await redemption.redemption(args.handle);
+    if (holder !== signer.address) {
+      throw new Error(`No pending redemption of ${signer.address} for ${args.handle}`);
+    }
+    const expiresAt = requestedAt + (await redemption.REDEMPTION_TIMEOUT());
+    const latest = await ethers.provider.getBlock("latest");
+    if (BigInt(latest!.timestamp) < expiresAt) {
+      throw new Error(`Redemption can be cancelled from ${new Date(Number(expiresAt) * 1000).toISOString()}`);
+    }
+
+    const tx = await redemption.connect(signer).cancelRedemption(args.handle);
+    out.log(`Cancel tx: ${tx.hash}`);
+    await tx.wait();
+    out.result({ tx: tx.hash, handle: args.handle });
+  });
+
+vaultTask("task:transfer-cusdt", "Send an encrypted amount of cUSDT to another address")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount of cUSDT to send (e.g. 25.5)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
+    if (!isAddress(args.to)) {
+      throw new Error(`Invalid recipient address: ${args.to}`);
+    }
+    const [signer] = await ethers.getSigners();
+
+    const cusdtDeployment = await deployments.get("ConfidentialUSDT");
+    const cusdt = await ethers.getContractAt("ConfidentialUSDT", cusdtDeployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(cusdtDeployment.address, signer.address)
+      .add64(ethers.parseUnits(args.amount, 6))
+      .encrypt();
+
+    const tx = await cusdt
+      .connect(signer)
+      ["confidentialTransfer(address,bytes32,bytes)"](args.to, encryptedInput.handles[0], encryptedInput.inputProof);
+    out.log(`Transfer tx: ${tx.hash}`);
+    const receipt = await tx.wait();
+
+    // ERC7984 moves nothing instead of reverting when the balance is too low, so report what actually left.
+    const transfer = receipt!.logs
+      .map((log) => cusdt.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ConfidentialTransfer");
+    const handle: string = transfer!.args.amount;
+    const sent = await fhevm.userDecryptEuint(FhevmType.euint64, handle, cusdtDeployment.address, signer);
+    if (sent === 0n) {
+      out.log("Amount exceeds the cUSDT balance, nothing was sent");
+    } else {
+      out.log(`Sent ${ethers.formatUnits(sent, 6)} cUSDT to ${args.to}`);
+    }
+    out.result({ tx: tx.hash, to: args.to, handle, amount: sent });
+  });
+
+vaultTask("task:decrypt-stake", "Decrypt the caller stake value")
   .addOptionalParam("user", "Address to decrypt")
   .setAction(async (args: TaskArguments, hre) => {
     const { ethers, deployments, fhevm } = hre;
     await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
 
     const [signer] = await ethers.getSigners();
     const target = args.user || signer.address;
@@ -51,18 +552,352 @@ task("task:decrypt-stake", "Decrypt the caller stake value")
     const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
 
     const encrypted = await vault.getEncryptedStake(target);
-    console.log(`Encrypted stake handle: ${encrypted}`);
+    out.log(`Encrypted stake handle: ${encrypted}`);
     if (encrypted === ethers.ZeroHash) {
-      console.log("Stake is empty");
+      out.log("Stake is empty");
+      out.result({ user: target, handle: encrypted, stake: 0n });
       return;
     }
 
-    const clearValue = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      encrypted,
-      vaultDeployment.address,
-      signer
+    const clearValue = await fhevm.userDecryptEuint(FhevmType.euint64, encrypted, vaultDeployment.address, signer);
+
+    out.log(`Decrypted stake for ${target}: ${clearValue.toString()} wei`);
+    out.result({ user: target, handle: encrypted, stake: clearValue });
+  });
+
+vaultTask("task:decrypt-cusdt", "Decrypt a cUSDT balance")
+  .addOptionalParam("user", "Address to decrypt (default: signer)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+
+    const [signer] = await ethers.getSigners();
+    const target = args.user || signer.address;
+
+    const cusdtDeployment = await deployments.get("ConfidentialUSDT");
+    const cusdt = await ethers.getContractAt("ConfidentialUSDT", cusdtDeployment.address);
+
+    const encrypted = await cusdt.confidentialBalanceOf(target);
+    out.log(`Encrypted cUSDT balance handle: ${encrypted}`);
+    const balance =
+      encrypted === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, encrypted, cusdtDeployment.address, signer);
+
+    out.log(`cUSDT balance of ${target}: ${ethers.formatUnits(balance, 6)} cUSDT`);
+    out.result({ user: target, handle: encrypted, balance });
+  });
+
+vaultTask("task:position", "Show a SecretRate position: public stake, lock, encrypted handles and any pending withdraw")
+  .addOptionalParam("user", "Account to inspect (default: signer)")
+  .addFlag("decrypt", "Also decrypt the stake, vault balance and pending rewards (the signer must be the user)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    const out = taskOutput(args);
+
+    const [signer] = await ethers.getSigners();
+    const user = args.user || signer.address;
+    if (args.decrypt && user.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`Only ${user} can decrypt their position`);
+    }
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const [plainAmount, lastAccrual, lockEnd, lockTier] = await vault.stakeDetails(user);
+    const [encryptedStake, encryptedDepositBalance, encryptedPendingRewards] = await vault.encryptedStakeDetails(user);
+    const autoSweep = await vault.autoSweepEnabled(user);
+    const withdrawalHandle = await vault.withdrawalHandle(user);
+    const withdrawalExpiry = await vault.withdrawalExpiry(user);
+    const position = {
+      user,
+      plainAmount,
+      lastAccrual,
+      lockEnd,
+      lockTier: Number(lockTier),
+      autoSweep,
+      encryptedStake,
+      encryptedDepositBalance,
+      encryptedPendingRewards,
+      withdrawalHandle: withdrawalHandle === ethers.ZeroHash ? null : withdrawalHandle,
+      withdrawalExpiry,
+    };
+
+    const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+    out.log(`Position of ${user}`);
+    out.log(
+      `Public stake: ${ethers.formatEther(plainAmount)} ETH, ` +
+        (lastAccrual === 0n ? "never accrued" : `accruing since ${formatTime(lastAccrual)}`),
     );
+    if (lockEnd > BigInt(Math.floor(Date.now() / 1000))) {
+      out.log(`Lock tier ${lockTier} until ${formatTime(lockEnd)}`);
+    }
+    out.log(`Auto-sweep: ${autoSweep ? "enabled" : "disabled"}`);
+    out.log(`Encrypted stake handle: ${encryptedStake}`);
+    out.log(`Encrypted vault balance handle: ${encryptedDepositBalance}`);
+    out.log(`Encrypted pending rewards handle: ${encryptedPendingRewards}`);
+    out.log(
+      position.withdrawalHandle
+        ? `Withdraw pending: ${withdrawalHandle}, cancellable from ${formatTime(withdrawalExpiry)}`
+        : "No withdraw pending",
+    );
+
+    if (!args.decrypt) {
+      out.result(position);
+      return;
+    }
+
+    // Pending rewards only cover yield up to lastAccrual; task:claim-yield or checkpointRewards() rolls in the rest.
+    await fhevm.initializeCLIApi();
+    const decrypt = async (handle: string) =>
+      handle === ethers.ZeroHash
+        ? 0n
+        : fhevm.userDecryptEuint(FhevmType.euint64, handle, vaultDeployment.address, signer);
+    const stake = await decrypt(encryptedStake);
+    const depositBalance = await decrypt(encryptedDepositBalance);
+    const pendingRewards = await decrypt(encryptedPendingRewards);
+    out.log(`Decrypted stake: ${ethers.formatEther(stake)} ETH`);
+    out.log(`Decrypted vault balance: ${ethers.formatEther(depositBalance)} ETH`);
+    out.log(`Decrypted pending rewards: ${ethers.formatUnits(pendingRewards, 6)} cUSDT`);
+    out.result({ ...position, stake, depositBalance, pendingRewards });
+  });
+
+vaultTask("task:migrate-position", "Move the caller position to the approved successor vault without disclosing it")
+  .addOptionalParam("vault", "Vault to migrate from (default: the deployed SecretRate)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultAddress = args.vault || (await deployments.get("SecretRate")).address;
+    const vault = await ethers.getContractAt("SecretRate", vaultAddress);
+
+    const successorAddress = await vault.successor();
+    if (successorAddress === ethers.ZeroAddress) {
+      throw new Error(`Vault ${vaultAddress} has no approved successor`);
+    }
+
+    const tx = await vault.connect(signer).migratePosition();
+    out.log(`Migrate tx: ${tx.hash}`);
+    await tx.wait();
+
+    const successor = await ethers.getContractAt("SecretRate", successorAddress);
+    const [plainAmount, lastAccrual, lockEnd] = await successor.stakeDetails(signer.address);
+    out.log(`Position moved from ${vaultAddress} to ${successorAddress}`);
+    out.log(`Public stake: ${ethers.formatEther(plainAmount)} ETH, accruing since ${lastAccrual}`);
+    if (lockEnd > BigInt(Math.floor(Date.now() / 1000))) {
+      out.log(`Still locked until ${new Date(Number(lockEnd) * 1000).toISOString()}`);
+    }
+    out.result({ tx: tx.hash, from: vaultAddress, to: successorAddress, plainAmount, lastAccrual, lockEnd });
+  });
+
+vaultTask("task:settle-reserves", "Set aside the ETH of positions migrated to a successor vault (owner only)")
+  .addOptionalParam("vault", "Vault the positions were migrated from (default: the deployed SecretRate)")
+  .addOptionalParam("successor", "Vault the positions were migrated to (default: the current successor)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultAddress = args.vault || (await deployments.get("SecretRate")).address;
+    const vault = await ethers.getContractAt("SecretRate", vaultAddress);
+    const successorAddress = args.successor || (await vault.successor());
+    if (successorAddress === ethers.ZeroAddress) {
+      throw new Error(`Vault ${vaultAddress} has no approved successor, pass --successor`);
+    }
+
+    // A total disclosed by an earlier run that never got settled is settled as is.
+    let discloseTx: string | undefined;
+    if ((await vault.disclosedReserves(successorAddress)) === ethers.ZeroHash) {
+      const tx = await vault.connect(signer).discloseReserves(successorAddress);
+      out.log(`Disclose tx: ${tx.hash}`);
+      await tx.wait();
+      discloseTx = tx.hash;
+    }
+
+    const handle = await vault.disclosedReserves(successorAddress);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearAmount = BigInt(decryption.clearValues[handle as `0x${string}`]);
+
+    const settleTx = await vault
+      .connect(signer)
+      .settleReserves(successorAddress, clearAmount, decryption.decryptionProof);
+    out.log(`Settle tx: ${settleTx.hash}`);
+    await settleTx.wait();
+    const allowance = await vault.reserveAllowance(successorAddress);
+    out.log(`${successorAddress} can draw ${ethers.formatEther(allowance)} ETH of migrated reserves`);
+    out.result({ discloseTx, settleTx: settleTx.hash, successor: successorAddress, amount: clearAmount, allowance });
+  });
+
+vaultTask("task:set-rate", "Set the SecretRate reward rate (owner only)")
+  .addParam("rate", "cUSDT per staked ETH per day (e.g. 1.5)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const newRate = ethers.parseUnits(args.rate, 6);
+    const previousRate = await vault.rewardRate();
+
+    const tx = await vault.connect(signer).setRewardRate(newRate);
+    out.log(`Set rate tx: ${tx.hash}`);
+    await tx.wait();
+    out.log(`Reward rate changed from ${ethers.formatUnits(previousRate, 6)} to ${args.rate} cUSDT / ETH / day`);
+    out.result({ tx: tx.hash, previousRate, rewardRate: newRate });
+  });
+
+vaultTask("task:claim-penalties", "Pay the forfeited early-exit penalties out of SecretRate (owner only)")
+  .addOptionalParam("to", "Recipient of the ETH (default: signer)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+    const to = args.to ?? signer.address;
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    // A total disclosed by an earlier run that never got claimed is claimed as is.
+    let discloseTx: string | undefined;
+    if ((await vault.disclosedPenalties()) === ethers.ZeroHash) {
+      if ((await vault.forfeitedPenalties()) === ethers.ZeroHash) {
+        throw new Error("No forfeited penalties to claim");
+      }
+      const tx = await vault.connect(signer).disclosePenalties();
+      out.log(`Disclose tx: ${tx.hash}`);
+      await tx.wait();
+      discloseTx = tx.hash;
+    }
+
+    const handle = await vault.disclosedPenalties();
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearAmount = BigInt(decryption.clearValues[handle as `0x${string}`]);
+
+    const claimTx = await vault.connect(signer).claimPenalties(to, clearAmount, decryption.decryptionProof);
+    out.log(`Claim tx: ${claimTx.hash}`);
+    await claimTx.wait();
+    out.log(`Paid ${ethers.formatEther(clearAmount)} ETH of penalties to ${to}`);
+    out.result({ discloseTx, claimTx: claimTx.hash, to, amount: clearAmount });
+  });
+
+vaultTask(
+  "task:reward-budget",
+  "Report the remaining cUSDT emission budget (decrypts for the cUSDT owner only)",
+).setAction(async (args, hre) => {
+  const { ethers, deployments, fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  const out = taskOutput(args);
+
+  const [signer] = await ethers.getSigners();
+  const cusdtDeployment = await deployments.get("ConfidentialUSDT");
+  const cusdt = await ethers.getContractAt("ConfidentialUSDT", cusdtDeployment.address);
 
-    console.log(`Decrypted stake for ${target}: ${clearValue.toString()} wei`);
+  const lifetimeCap = await cusdt.lifetimeCap();
+  const epochCap = await cusdt.epochCap();
+  const epochDuration = await cusdt.EPOCH_DURATION();
+  out.log(`Lifetime cap: ${ethers.formatUnits(lifetimeCap, 6)} cUSDT`);
+  out.log(`Epoch cap: ${ethers.formatUnits(epochCap, 6)} cUSDT per ${epochDuration} seconds`);
+
+  const caps = { lifetimeCap, epochCap, epochDuration };
+  if ((await cusdt.owner()) !== signer.address) {
+    out.log("Minted totals are only decryptable by the cUSDT owner");
+    out.result(caps);
+    return;
+  }
+
+  const decrypt = async (handle: string) =>
+    handle === ethers.ZeroHash
+      ? 0n
+      : fhevm.userDecryptEuint(FhevmType.euint64, handle, cusdtDeployment.address, signer);
+
+  const lifetimeMinted = await decrypt(await cusdt.lifetimeMinted());
+  out.log(`Remaining lifetime budget: ${ethers.formatUnits(lifetimeCap - lifetimeMinted, 6)} cUSDT`);
+
+  const latestBlock = await ethers.provider.getBlock("latest");
+  const epoch = BigInt(latestBlock!.timestamp) / epochDuration;
+  const epochMinted = epoch === (await cusdt.currentEpoch()) ? await decrypt(await cusdt.epochMinted()) : 0n;
+  const epochLeft = epochMinted < epochCap ? epochCap - epochMinted : 0n;
+  out.log(`Remaining in epoch ${epoch}: ${ethers.formatUnits(epochLeft, 6)} cUSDT`);
+  out.result({ ...caps, lifetimeRemaining: lifetimeCap - lifetimeMinted, epoch, epochRemaining: epochLeft });
+});
+
+vaultTask("task:top-up-budget", "Add to the cUSDT emission budget (owner only)")
+  .addParam("amount", "cUSDT to add (e.g. 10000)")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const cusdtDeployment = await deployments.get("ConfidentialUSDT");
+    const cusdt = await ethers.getContractAt("ConfidentialUSDT", cusdtDeployment.address);
+
+    const tx = await cusdt.connect(signer).topUpBudget(ethers.parseUnits(args.amount, 6));
+    out.log(`Top-up tx: ${tx.hash}`);
+    await tx.wait();
+    const lifetimeCap = await cusdt.lifetimeCap();
+    out.log(`Lifetime cap is now ${ethers.formatUnits(lifetimeCap, 6)} cUSDT`);
+    out.result({ tx: tx.hash, lifetimeCap });
+  });
+
+const PAUSE_SCOPES: Record<string, number> = { deposits: 1, claims: 2, withdrawals: 4 };
+
+function parsePauseScopes(value: string) {
+  const names = value === "all" ? Object.keys(PAUSE_SCOPES) : value.split(",").map((name) => name.trim());
+  return names.reduce((scopes, name) => {
+    if (PAUSE_SCOPES[name] === undefined) {
+      throw new Error(`Unknown pause scope "${name}", expected one of: ${Object.keys(PAUSE_SCOPES).join(", ")}, all`);
+    }
+    return scopes | PAUSE_SCOPES[name];
+  }, 0);
+}
+
+function pauseScopeNames(scopes: bigint | number) {
+  return Object.keys(PAUSE_SCOPES).filter((name) => (Number(scopes) & PAUSE_SCOPES[name]) !== 0);
+}
+
+function describePauseScopes(scopes: bigint | number) {
+  const names = pauseScopeNames(scopes);
+  return names.length === 0 ? "nothing" : names.join(", ");
+}
+
+vaultTask("task:pause", "Pause SecretRate deposits, claims and/or withdrawals (guardian or owner)")
+  .addOptionalParam("scopes", "Comma-separated scopes: deposits, claims, withdrawals, or all", "all")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const tx = await vault.connect(signer).pause(parsePauseScopes(args.scopes));
+    out.log(`Pause tx: ${tx.hash}`);
+    await tx.wait();
+    const pausedScopes = await vault.pausedScopes();
+    out.log(`Paused: ${describePauseScopes(pausedScopes)}`);
+    out.result({ tx: tx.hash, paused: pauseScopeNames(pausedScopes) });
+  });
+
+vaultTask("task:unpause", "Unpause SecretRate deposits, claims and/or withdrawals (owner only)")
+  .addOptionalParam("scopes", "Comma-separated scopes: deposits, claims, withdrawals, or all", "all")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments } = hre;
+    const out = taskOutput(args);
+    const [signer] = await ethers.getSigners();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address);
+
+    const tx = await vault.connect(signer).unpause(parsePauseScopes(args.scopes));
+    out.log(`Unpause tx: ${tx.hash}`);
+    await tx.wait();
+    const pausedScopes = await vault.pausedScopes();
+    out.log(`Paused: ${describePauseScopes(pausedScopes)}`);
+    out.result({ tx: tx.hash, paused: pauseScopeNames(pausedScopes) });
   });
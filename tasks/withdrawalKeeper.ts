@@ -0,0 +1,53 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { join } from "path";
+import { createWithdrawalKeeper } from "../keeper/withdrawalKeeper";
+import { DEFAULT_CONFIRMATIONS } from "../shared/confirmations";
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:withdrawal-keeper
+ *   - npx hardhat --network sepolia task:withdrawal-keeper --confirmations 2
+ *   - npx hardhat --network sepolia task:withdrawal-keeper --once
+ */
+task("task:withdrawal-keeper", "Finalizes SecretRate withdrawals as soon as they are requested")
+  .addOptionalParam("stateFile", "Where to persist the block cursor and retry queue")
+  .addOptionalParam(
+    "confirmations",
+    `Blocks to wait before acting on a request (default: ${DEFAULT_CONFIRMATIONS}, or 0 on a local chain)`,
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("pollInterval", "Seconds between polls", 15, types.int)
+  .addFlag("once", "Poll a single time and exit")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const [signer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const vaultDeployment = await deployments.get("SecretRate");
+    const vault = await ethers.getContractAt("SecretRate", vaultDeployment.address, signer);
+
+    const stateFile = args.stateFile ?? join(".keeper", `withdrawals-${chainId}.json`);
+    const keeper = createWithdrawalKeeper({
+      vault,
+      publicDecrypt: (handles) => fhevm.publicDecrypt(handles),
+      stateFile,
+      fromBlock: vaultDeployment.receipt?.blockNumber ?? 0,
+      confirmations: args.confirmations,
+      pollIntervalMs: args.pollInterval * 1000,
+    });
+
+    console.log(`Withdrawal keeper for SecretRate ${vaultDeployment.address} (state: ${stateFile})`);
+    if (args.once) {
+      await keeper.poll();
+      console.log(`Pending: ${keeper.state.pending.length}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    await keeper.run(controller.signal);
+  });
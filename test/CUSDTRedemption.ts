@@ -0,0 +1,156 @@
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { CUSDTRedemption, ConfidentialUSDT } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+// 0.0005 ETH per whole cUSDT
+const PRICE = ethers.parseEther("0.0005");
+
+describe("CUSDTRedemption", function () {
+  let cusdt: ConfidentialUSDT;
+  let redemption: CUSDTRedemption;
+  let redemptionAddress: string;
+  let deployer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, user, other] = await ethers.getSigners();
+
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    redemption = await deployProxy<CUSDTRedemption>("CUSDTRedemption", [await cusdt.getAddress(), PRICE]);
+    redemptionAddress = await redemption.getAddress();
+
+    await cusdt.connect(deployer).grantRole(await cusdt.BURNER_ROLE(), redemptionAddress);
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), deployer.address);
+    await cusdt.connect(deployer).setMinterAllowance(deployer.address, 100_000_000n);
+    await cusdt.connect(deployer).topUpBudget(100_000_000n);
+    await cusdt.connect(deployer).setEpochCap(100_000_000n);
+    await cusdt.connect(deployer).mintFromPlain(user.address, 10_000_000n);
+    await cusdt.connect(user).setOperator(redemptionAddress, 2n ** 48n - 1n);
+
+    await deployer.sendTransaction({ to: redemptionAddress, value: ethers.parseEther("1") });
+  });
+
+  async function balanceOf(signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(signer.address),
+      await cusdt.getAddress(),
+      signer,
+    );
+  }
+
+  async function request(signer: HardhatEthersSigner, amount: bigint) {
+    const input = await fhevm.createEncryptedInput(redemptionAddress, signer.address).add64(amount).encrypt();
+    const tx = await redemption.connect(signer).requestRedemption(input.handles[0], input.inputProof);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => redemption.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "RedemptionRequested");
+    return event!.args.encryptedHandle as string;
+  }
+
+  async function proofFor(handle: string) {
+    const decryption = await fhevm.publicDecrypt([handle]);
+    return {
+      clearValue: BigInt(decryption.clearValues[handle as `0x${string}`]),
+      decryptionProof: decryption.decryptionProof,
+    };
+  }
+
+  it("escrows the encrypted amount, then burns it and pays ETH at the configured price", async function () {
+    const handle = await request(user, 4_000_000n);
+    const requestedAt = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    expect(await balanceOf(user)).to.eq(6_000_000n);
+    expect(await redemption.redemption(handle)).to.deep.eq([user.address, PRICE, requestedAt]);
+
+    const { clearValue, decryptionProof } = await proofFor(handle);
+    expect(clearValue).to.eq(4_000_000n);
+
+    const payout = PRICE * 4n;
+    const finalize = redemption.connect(other).finalizeRedemption(handle, clearValue, decryptionProof);
+    await expect(finalize).to.changeEtherBalances([user, redemption], [payout, -payout]);
+    await expect(finalize).to.emit(redemption, "RedemptionFinalized").withArgs(user.address, clearValue, payout);
+    await expect(finalize)
+      .to.emit(cusdt, "ConfidentialTransfer")
+      .withArgs(redemptionAddress, ethers.ZeroAddress, anyValue);
+
+    await expect(redemption.finalizeRedemption(handle, clearValue, decryptionProof)).to.be.revertedWithCustomError(
+      redemption,
+      "InvalidProof",
+    );
+  });
+
+  it("pays nothing when the amount exceeds the balance", async function () {
+    const handle = await request(user, 20_000_000n);
+    expect(await balanceOf(user)).to.eq(10_000_000n);
+
+    const { clearValue, decryptionProof } = await proofFor(handle);
+    expect(clearValue).to.eq(0n);
+    await expect(redemption.finalizeRedemption(handle, clearValue, decryptionProof)).to.changeEtherBalance(user, 0n);
+  });
+
+  it("keeps the price of pending requests and waits for reserves", async function () {
+    const handle = await request(user, 10_000_000n);
+    await expect(redemption.connect(deployer).setPrice(PRICE * 1_000n))
+      .to.emit(redemption, "PriceUpdated")
+      .withArgs(PRICE, PRICE * 1_000n);
+
+    await redemption.connect(deployer).withdrawTreasury(deployer.address, ethers.parseEther("0.999"));
+    const { clearValue, decryptionProof } = await proofFor(handle);
+    await expect(redemption.finalizeRedemption(handle, clearValue, decryptionProof))
+      .to.be.revertedWithCustomError(redemption, "InsufficientReserves")
+      .withArgs(ethers.parseEther("0.001"), PRICE * 10n);
+
+    await deployer.sendTransaction({ to: redemptionAddress, value: ethers.parseEther("0.004") });
+    await expect(redemption.finalizeRedemption(handle, clearValue, decryptionProof)).to.changeEtherBalance(
+      user,
+      PRICE * 10n,
+    );
+  });
+
+  it("returns the escrow to a holder who cancels after the timeout", async function () {
+    const handle = await request(user, 4_000_000n);
+    await redemption.connect(deployer).withdrawTreasury(deployer.address, ethers.parseEther("1"));
+
+    const expiresAt = (await redemption.redemption(handle))[2] + (await redemption.REDEMPTION_TIMEOUT());
+    await expect(redemption.connect(user).cancelRedemption(handle))
+      .to.be.revertedWithCustomError(redemption, "RedemptionNotExpired")
+      .withArgs(expiresAt);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(expiresAt)]);
+    await expect(redemption.connect(other).cancelRedemption(handle)).to.be.revertedWithCustomError(
+      redemption,
+      "NoRedemption",
+    );
+    await expect(redemption.connect(user).cancelRedemption(handle))
+      .to.emit(redemption, "RedemptionCancelled")
+      .withArgs(user.address, handle);
+    expect(await balanceOf(user)).to.eq(10_000_000n);
+
+    const { clearValue, decryptionProof } = await proofFor(handle);
+    await expect(redemption.finalizeRedemption(handle, clearValue, decryptionProof)).to.be.revertedWithCustomError(
+      redemption,
+      "InvalidProof",
+    );
+  });
+
+  it("restricts the price and the treasury to the owner", async function () {
+    await expect(redemption.connect(other).setPrice(1n)).to.be.revertedWithCustomError(
+      redemption,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(redemption.connect(other).withdrawTreasury(other.address, 1n)).to.be.revertedWithCustomError(
+      redemption,
+      "OwnableUnauthorizedAccount",
+    );
+  });
+});
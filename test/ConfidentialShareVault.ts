@@ -0,0 +1,95 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialShareVault, ConfidentialUSDT } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+describe("ConfidentialShareVault", function () {
+  let cusdt: ConfidentialUSDT;
+  let shareVault: ConfidentialShareVault;
+  let cusdtAddress: string;
+  let shareVaultAddress: string;
+  let deployer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let receiver: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, user, receiver] = await ethers.getSigners();
+
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    cusdtAddress = await cusdt.getAddress();
+    shareVault = await deployProxy<ConfidentialShareVault>("ConfidentialShareVault", [cusdtAddress]);
+    shareVaultAddress = await shareVault.getAddress();
+
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), deployer.address);
+    await cusdt.connect(deployer).setMinterAllowance(deployer.address, MAX_UINT64);
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+    await cusdt.connect(deployer).mintFromPlain(user.address, 3_000_000n);
+  });
+
+  async function decrypt(handle: string, contractAddress: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+  }
+
+  async function depositFor(to: string, amount: bigint) {
+    const input = await fhevm.createEncryptedInput(cusdtAddress, user.address).add64(amount).encrypt();
+    const data = to === user.address ? "0x" : ethers.AbiCoder.defaultAbiCoder().encode(["address"], [to]);
+    await cusdt
+      .connect(user)
+      [
+        "confidentialTransferAndCall(address,bytes32,bytes,bytes)"
+      ](shareVaultAddress, input.handles[0], input.inputProof, data);
+  }
+
+  it("issues shares 1:1 to the sender or the receiver named in the call data", async function () {
+    expect(await shareVault.name()).to.eq("SecretRate cUSDT Shares");
+    expect(await shareVault.symbol()).to.eq("scUSDT");
+    expect(await shareVault.asset()).to.eq(cusdtAddress);
+
+    await depositFor(user.address, 1_000_000n);
+    await depositFor(receiver.address, 500_000n);
+
+    expect(await decrypt(await shareVault.confidentialBalanceOf(user.address), shareVaultAddress, user)).to.eq(
+      1_000_000n,
+    );
+    expect(await decrypt(await shareVault.confidentialBalanceOf(receiver.address), shareVaultAddress, receiver)).to.eq(
+      500_000n,
+    );
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), cusdtAddress, user)).to.eq(1_500_000n);
+  });
+
+  it("redeems shares for cUSDT and redeems nothing above the share balance", async function () {
+    await depositFor(user.address, 1_000_000n);
+
+    const tooMuch = await fhevm.createEncryptedInput(shareVaultAddress, user.address).add64(2_000_000n).encrypt();
+    await shareVault.connect(user)["redeem(bytes32,bytes)"](tooMuch.handles[0], tooMuch.inputProof);
+    expect(await decrypt(await shareVault.confidentialBalanceOf(user.address), shareVaultAddress, user)).to.eq(
+      1_000_000n,
+    );
+
+    const shares = await shareVault.confidentialBalanceOf(user.address);
+    await expect(shareVault.connect(receiver)["redeem(bytes32)"](shares)).to.be.revertedWithCustomError(
+      shareVault,
+      "ERC7984UnauthorizedUseOfEncryptedAmount",
+    );
+    await shareVault.connect(user)["redeem(bytes32)"](shares);
+    expect(await decrypt(await shareVault.confidentialBalanceOf(user.address), shareVaultAddress, user)).to.eq(0n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), cusdtAddress, user)).to.eq(3_000_000n);
+  });
+
+  it("only accepts deposits from cUSDT", async function () {
+    await expect(
+      shareVault.connect(user).onConfidentialTransferReceived(user.address, user.address, ethers.ZeroHash, "0x"),
+    )
+      .to.be.revertedWithCustomError(shareVault, "UnsupportedAsset")
+      .withArgs(user.address);
+  });
+});
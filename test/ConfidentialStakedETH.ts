@@ -0,0 +1,154 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialStakedETH, ConfidentialUSDT, SecretRate } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const GWEI = 10n ** 9n;
+
+describe("ConfidentialStakedETH", function () {
+  let cusdt: ConfidentialUSDT;
+  let vault: SecretRate;
+  let receipt: ConfidentialStakedETH;
+  let vaultAddress: string;
+  let receiptAddress: string;
+  let deployer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, user, other] = await ethers.getSigners();
+
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    vault = await deployProxy<SecretRate>("SecretRate", [await cusdt.getAddress()]);
+    vaultAddress = await vault.getAddress();
+    receipt = await deployProxy<ConfidentialStakedETH>("ConfidentialStakedETH", [vaultAddress]);
+    receiptAddress = await receipt.getAddress();
+
+    await vault.connect(deployer).setReceiptToken(receiptAddress);
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), vaultAddress);
+    await cusdt.connect(deployer).setMinterAllowance(vaultAddress, MAX_UINT64);
+    await cusdt.connect(deployer).topUpBudget(1_000_000_000_000n);
+    await cusdt.connect(deployer).setEpochCap(1_000_000_000_000n);
+  });
+
+  async function shares(signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await receipt.confidentialBalanceOf(signer.address),
+      receiptAddress,
+      signer,
+    );
+  }
+
+  async function stakeOf(signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedStake(signer.address),
+      vaultAddress,
+      signer,
+    );
+  }
+
+  async function pendingRewards(signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedPendingRewards(signer.address),
+      vaultAddress,
+      signer,
+    );
+  }
+
+  async function transferShares(from: HardhatEthersSigner, to: string, amount: bigint) {
+    const input = await fhevm.createEncryptedInput(receiptAddress, from.address).add64(amount).encrypt();
+    return receipt.connect(from)["confidentialTransfer(address,bytes32,bytes)"](to, input.handles[0], input.inputProof);
+  }
+
+  it("mirrors the stake in gwei and moves the stake and its yield with a transfer", async function () {
+    expect(await receipt.name()).to.eq("SecretRate Staked ETH");
+    expect(await receipt.symbol()).to.eq("csETH");
+    expect(await receipt.decimals()).to.eq(9);
+    expect(await receipt.convertToShares(ethers.parseEther("1"))).to.eq(GWEI);
+    expect(await receipt.convertToAssets(GWEI)).to.eq(ethers.parseEther("1"));
+
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+    expect(await shares(user)).to.eq(GWEI);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await expect(transferShares(user, other.address, GWEI / 4n)).to.emit(vault, "StakeTransferred");
+
+    expect(await shares(user)).to.eq((GWEI * 3n) / 4n);
+    expect(await shares(other)).to.eq(GWEI / 4n);
+    expect(await stakeOf(user)).to.eq(ethers.parseEther("0.75"));
+    expect(await stakeOf(other)).to.eq(ethers.parseEther("0.25"));
+    const [plainAmount] = await vault.stakeDetails(user.address);
+    expect(plainAmount).to.eq(0n);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await vault.connect(user).checkpointRewards();
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400 + 1]);
+    await vault.connect(other).checkpointRewards();
+    expect(await pendingRewards(user)).to.eq(1_750_000n);
+    expect(await pendingRewards(other)).to.eq((250_000n * 86_401n) / 86_400n);
+  });
+
+  it("burns the receipt on withdrawal and reissues it when the request is cancelled", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    const input = await fhevm
+      .createEncryptedInput(vaultAddress, user.address)
+      .add64(ethers.parseEther("0.4"))
+      .encrypt();
+    await vault.connect(user).requestPartialWithdraw(input.handles[0], input.inputProof);
+    expect(await shares(user)).to.eq((GWEI * 6n) / 10n);
+
+    await ethers.provider.send("evm_increaseTime", [86_400]);
+    await vault.connect(user).cancelWithdraw();
+    expect(await shares(user)).to.eq(GWEI);
+
+    await vault.connect(user).requestWithdraw();
+    expect(await shares(user)).to.eq(0n);
+
+    const handle = await vault.getEncryptedStake(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await vault.finalizeWithdraw(handle, clearValue, decryption.decryptionProof);
+    expect(await shares(user)).to.eq(0n);
+  });
+
+  it("refuses transfers of locked stakes and between withdrawing positions", async function () {
+    await vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("1") });
+    const [, , lockEnd] = await vault.stakeDetails(user.address);
+    await expect(transferShares(user, other.address, GWEI))
+      .to.be.revertedWithCustomError(vault, "StakeLocked")
+      .withArgs(lockEnd);
+
+    await vault.connect(other).stake({ value: ethers.parseEther("1") });
+    await vault.connect(user).requestEarlyWithdraw();
+    await expect(transferShares(other, user.address, GWEI)).to.be.revertedWithCustomError(vault, "WithdrawInProgress");
+
+    await expect(vault.connect(other).onReceiptTransfer(other.address, user.address, ethers.ZeroHash))
+      .to.be.revertedWithCustomError(vault, "NotReceiptToken")
+      .withArgs(other.address);
+    await expect(receipt.connect(other).syncShares(other.address, ethers.ZeroHash))
+      .to.be.revertedWithCustomError(receipt, "NotVault")
+      .withArgs(other.address);
+  });
+
+  it("issues receipts to positions opened before the receipt token was set", async function () {
+    await vault.connect(deployer).setReceiptToken(ethers.ZeroAddress);
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await vault.connect(deployer).setReceiptToken(receiptAddress);
+    expect(await receipt.confidentialBalanceOf(user.address)).to.eq(ethers.ZeroHash);
+
+    await vault.connect(user).checkpointRewards();
+    expect(await shares(user)).to.eq(GWEI);
+  });
+});
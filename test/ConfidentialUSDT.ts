@@ -0,0 +1,230 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ConfidentialUSDT } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+describe("ConfidentialUSDT", function () {
+  let cusdt: ConfidentialUSDT;
+  let cusdtAddress: string;
+  let deployer: HardhatEthersSigner;
+  let minter: HardhatEthersSigner;
+  let faucet: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, minter, faucet, user] = await ethers.getSigners();
+
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    cusdtAddress = await cusdt.getAddress();
+
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), minter.address);
+    await cusdt.connect(deployer).setMinterAllowance(minter.address, MAX_UINT64);
+  });
+
+  async function decrypt(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, cusdtAddress, signer);
+  }
+
+  async function startOfNextEpoch() {
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const epoch = Number(await cusdt.EPOCH_DURATION());
+    return (Math.floor(now / epoch) + 1) * epoch;
+  }
+
+  it("mints nothing before the budget is funded", async function () {
+    await cusdt.connect(deployer).setEpochCap(1_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(0);
+  });
+
+  it("clamps mints to the epoch cap and resets it every epoch", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(3_000_000n);
+
+    const nextEpoch = await startOfNextEpoch();
+    await ethers.provider.send("evm_setNextBlockTimestamp", [nextEpoch]);
+    await expect(cusdt.connect(minter).mintFromPlain(user.address, 2_000_000n))
+      .to.emit(cusdt, "EmissionEpochStarted")
+      .withArgs(nextEpoch / Number(await cusdt.EPOCH_DURATION()), 3_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 2_000_000n);
+
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(3_000_000n);
+    expect(await decrypt(await cusdt.epochMinted(), deployer)).to.eq(3_000_000n);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [nextEpoch + Number(await cusdt.EPOCH_DURATION())]);
+    await cusdt.connect(minter).mintFromPlain(user.address, 2_000_000n);
+
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(5_000_000n);
+    expect(await decrypt(await cusdt.lifetimeMinted(), deployer)).to.eq(5_000_000n);
+  });
+
+  it("applies a lowered epoch cap to the current epoch", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(3_000_000n);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [await startOfNextEpoch()]);
+    await cusdt.connect(minter).mintFromPlain(user.address, 2_000_000n);
+    await expect(cusdt.connect(deployer).setEpochCap(1_000_000n))
+      .to.emit(cusdt, "EpochCapUpdated")
+      .withArgs(1_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(2_000_000n);
+  });
+
+  it("stops at the lifetime budget until it is topped up", async function () {
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+    await expect(cusdt.connect(deployer).topUpBudget(1_500_000n))
+      .to.emit(cusdt, "BudgetToppedUp")
+      .withArgs(1_500_000n, 1_500_000n);
+
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(1_500_000n);
+
+    await cusdt.connect(deployer).topUpBudget(1_000_000n);
+    expect(await cusdt.lifetimeCap()).to.eq(2_500_000n);
+
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(2_500_000n);
+    expect(await decrypt(await cusdt.lifetimeMinted(), deployer)).to.eq(2_500_000n);
+  });
+
+  it("restricts budget administration and minting to their roles", async function () {
+    const adminRole = await cusdt.DEFAULT_ADMIN_ROLE();
+    await expect(cusdt.connect(user).topUpBudget(1n))
+      .to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount")
+      .withArgs(user.address, adminRole);
+    await expect(cusdt.connect(user).setEpochCap(1n))
+      .to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount")
+      .withArgs(user.address, adminRole);
+    await expect(cusdt.connect(user).setMinterAllowance(user.address, 1n))
+      .to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount")
+      .withArgs(user.address, adminRole);
+    await expect(cusdt.connect(user).mintFromPlain(user.address, 1n))
+      .to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount")
+      .withArgs(user.address, await cusdt.MINTER_ROLE());
+    expect(await cusdt.owner()).to.eq(deployer.address);
+  });
+
+  it("bounds each minter by its own allowance", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+
+    const minterRole = await cusdt.MINTER_ROLE();
+    await expect(cusdt.connect(deployer).grantRole(minterRole, faucet.address))
+      .to.emit(cusdt, "RoleGranted")
+      .withArgs(minterRole, faucet.address, deployer.address);
+    await expect(cusdt.connect(deployer).setMinterAllowance(faucet.address, 1_000_000n))
+      .to.emit(cusdt, "MinterAllowanceUpdated")
+      .withArgs(faucet.address, 1_000_000n);
+
+    await cusdt.connect(faucet).mintFromPlain(user.address, 700_000n);
+    await cusdt.connect(faucet).mintFromPlain(user.address, 700_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 2_000_000n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(3_000_000n);
+    expect(await decrypt(await cusdt.mintedSinceAllowance(faucet.address), faucet)).to.eq(1_000_000n);
+
+    await cusdt.connect(deployer).setMinterAllowance(faucet.address, 500_000n);
+    await cusdt.connect(faucet).mintFromPlain(user.address, 700_000n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(3_500_000n);
+
+    await cusdt.connect(deployer).revokeRole(minterRole, faucet.address);
+    await expect(cusdt.connect(faucet).mintFromPlain(user.address, 1n)).to.be.revertedWithCustomError(
+      cusdt,
+      "AccessControlUnauthorizedAccount",
+    );
+  });
+
+  it("lets pausers stop mints and transfers", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+
+    await expect(cusdt.connect(user).pause()).to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount");
+    await cusdt.connect(deployer).grantRole(await cusdt.PAUSER_ROLE(), deployer.address);
+    await cusdt.connect(deployer).pause();
+
+    await expect(cusdt.connect(minter).mintFromPlain(user.address, 1n)).to.be.revertedWithCustomError(
+      cusdt,
+      "EnforcedPause",
+    );
+    const transferInput = await fhevm.createEncryptedInput(cusdtAddress, user.address).add64(100n).encrypt();
+    await expect(
+      cusdt
+        .connect(user)
+        [
+          "confidentialTransfer(address,bytes32,bytes)"
+        ](deployer.address, transferInput.handles[0], transferInput.inputProof),
+    ).to.be.revertedWithCustomError(cusdt, "EnforcedPause");
+
+    await cusdt.connect(deployer).unpause();
+    await cusdt.connect(minter).mintFromPlain(user.address, 1n);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(1_000_001n);
+  });
+
+  it("lets burners burn amounts they are allowed to use from their own or approved balances", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+    await cusdt.connect(minter).mintFromPlain(faucet.address, 400_000n);
+
+    const burnerRole = await cusdt.BURNER_ROLE();
+    await cusdt.connect(deployer).grantRole(burnerRole, faucet.address);
+    await cusdt.connect(deployer).grantRole(burnerRole, user.address);
+
+    const balance = await cusdt.confidentialBalanceOf(user.address);
+    await expect(cusdt.connect(faucet).burnEncrypted(user.address, balance)).to.be.revertedWithCustomError(
+      cusdt,
+      "ERC7984UnauthorizedUseOfEncryptedAmount",
+    );
+
+    const faucetBalance = await cusdt.confidentialBalanceOf(faucet.address);
+    await expect(cusdt.connect(faucet).burnEncrypted(user.address, faucetBalance))
+      .to.be.revertedWithCustomError(cusdt, "ERC7984UnauthorizedSpender")
+      .withArgs(user.address, faucet.address);
+
+    await cusdt.connect(user).setOperator(faucet.address, 2n ** 48n - 1n);
+    await cusdt.connect(faucet).burnEncrypted(user.address, faucetBalance);
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(600_000n);
+
+    await cusdt.connect(user).burnEncrypted(user.address, await cusdt.confidentialBalanceOf(user.address));
+    expect(await decrypt(await cusdt.confidentialBalanceOf(user.address), user)).to.eq(0);
+  });
+
+  it("keeps balances, emission totals and roles across an upgrade", async function () {
+    await cusdt.connect(deployer).topUpBudget(10_000_000n);
+    await cusdt.connect(deployer).setEpochCap(10_000_000n);
+    await cusdt.connect(minter).mintFromPlain(user.address, 1_000_000n);
+    const balanceHandle = await cusdt.confidentialBalanceOf(user.address);
+
+    const implementation = await ethers.deployContract("ConfidentialUSDTUpgradeMock");
+    await expect(
+      cusdt.connect(minter).upgradeToAndCall(await implementation.getAddress(), "0x"),
+    ).to.be.revertedWithCustomError(cusdt, "AccessControlUnauthorizedAccount");
+    await cusdt.connect(deployer).upgradeToAndCall(await implementation.getAddress(), "0x");
+    const upgraded = await ethers.getContractAt("ConfidentialUSDTUpgradeMock", cusdtAddress);
+
+    expect(await upgraded.upgradeVersion()).to.eq(2);
+    expect(await upgraded.name()).to.eq("cUSDT");
+    expect(await upgraded.symbol()).to.eq("cUSDT");
+    expect(await upgraded.lifetimeCap()).to.eq(10_000_000n);
+    expect(await upgraded.minterAllowance(minter.address)).to.eq(MAX_UINT64);
+    expect(await upgraded.hasRole(await upgraded.MINTER_ROLE(), minter.address)).to.eq(true);
+    expect(await upgraded.confidentialBalanceOf(user.address)).to.eq(balanceHandle);
+    expect(await decrypt(balanceHandle, user)).to.eq(1_000_000n);
+
+    await upgraded.connect(minter).mintFromPlain(user.address, 500_000n);
+    expect(await decrypt(await upgraded.confidentialBalanceOf(user.address), user)).to.eq(1_500_000n);
+    expect(await decrypt(await upgraded.lifetimeMinted(), deployer)).to.eq(1_500_000n);
+  });
+});
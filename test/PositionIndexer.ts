@@ -0,0 +1,138 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+import { createPositionIndexer } from "../indexer/positionIndexer";
+import { IndexedEvent, openPositionStore, PositionStore } from "../indexer/positionStore";
+import { createIndexerServer } from "../indexer/server";
+import { ConfidentialUSDT, SecretRate } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+describe("PositionIndexer", function () {
+  let cusdt: ConfidentialUSDT;
+  let vault: SecretRate;
+  let deployer: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let store: PositionStore;
+  let fromBlock: number;
+
+  const newIndexer = (overrides: Partial<Parameters<typeof createPositionIndexer>[0]> = {}) =>
+    createPositionIndexer({ vault, cusdt, store, fromBlock, log: () => {}, ...overrides });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, user] = await ethers.getSigners();
+
+    fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    vault = await deployProxy<SecretRate>("SecretRate", [await cusdt.getAddress()]);
+
+    const vaultAddress = await vault.getAddress();
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), vaultAddress);
+    await cusdt.connect(deployer).setMinterAllowance(vaultAddress, MAX_UINT64);
+    await cusdt.connect(deployer).topUpBudget(1_000_000_000_000n);
+    await cusdt.connect(deployer).setEpochCap(1_000_000_000_000n);
+
+    store = openPositionStore(":memory:");
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("indexes stakes, claims, withdrawals and cUSDT mints into a user history", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await ethers.provider.send("evm_increaseTime", [86_400]);
+    await vault.connect(user).claimInterest();
+    await vault.connect(user).requestWithdraw();
+    const handle = await vault.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await vault.finalizeWithdraw(handle, clearValue, decryption.decryptionProof);
+
+    await newIndexer().poll();
+
+    const history = store.history(user.address);
+    expect(history.map((event) => event.name)).to.deep.eq([
+      "WithdrawalFinalized",
+      "WithdrawalRequested",
+      "InterestClaimed",
+      "ConfidentialTransfer",
+      "Staked",
+    ]);
+    expect(history[0].amount).to.eq(ethers.parseEther("1").toString());
+    expect(history[3]).to.include({ account: ethers.ZeroAddress, counterparty: user.address, amount: null });
+    expect(history[4].handle).to.match(/^0x[0-9a-f]{64}$/);
+
+    const stats = store.stats();
+    expect(stats).to.include({ blockNumber: await ethers.provider.getBlockNumber(), tvl: "0", stakers: 1, claims: 1 });
+    expect(stats.lifetimeMintedHandle).to.eq(await cusdt.lifetimeMinted());
+  });
+
+  it("stays behind the head by the confirmation depth and resumes from the cursor", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const stakeBlock = await ethers.provider.getBlockNumber();
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+
+    await newIndexer({ confirmations: 3 }).poll();
+    expect(store.cursor()!.blockNumber).to.eq(stakeBlock - 1);
+    expect(store.history(user.address)).to.have.length(0);
+
+    await ethers.provider.send("hardhat_mine", ["0x1"]);
+    await newIndexer({ confirmations: 3 }).poll();
+    expect(store.history(user.address).map((event) => event.name)).to.deep.eq(["Staked"]);
+    expect(store.stats().tvl).to.eq(ethers.parseEther("1").toString());
+  });
+
+  it("drops and re-indexes blocks that were reorged out", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const indexer = newIndexer({ reorgDepth: 4 });
+    await indexer.poll();
+
+    // Pretend the last indexed block carried another stake and was since replaced by the one on chain.
+    const cursor = store.cursor()!;
+    const [staked] = store.history(user.address);
+    store.append([{ ...staked, logIndex: staked.logIndex + 1, amount: "5" }], {
+      ...cursor,
+      blockHash: ethers.ZeroHash,
+    });
+    expect(store.history(user.address)).to.have.length(2);
+
+    await indexer.poll();
+    const history = store.history(user.address);
+    expect(history).to.have.length(1);
+    expect(history[0].amount).to.eq(ethers.parseEther("1").toString());
+    expect(store.cursor()!.blockHash).to.eq(cursor.blockHash);
+  });
+
+  it("serves history and stats as JSON", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await newIndexer().poll();
+
+    const server = createIndexerServer(store).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const history = await fetch(`${baseUrl}/users/${user.address.toLowerCase()}/history?limit=10`);
+      expect(history.headers.get("access-control-allow-origin")).to.eq("*");
+      const body = (await history.json()) as { address: string; events: IndexedEvent[] };
+      expect(body.address).to.eq(user.address);
+      expect(body.events).to.have.length(1);
+      expect(body.events[0]).to.include({ name: "Staked", amount: ethers.parseEther("1").toString() });
+
+      const stats = await (await fetch(`${baseUrl}/stats`)).json();
+      expect(stats).to.include({ tvl: ethers.parseEther("1").toString(), stakers: 1 });
+
+      expect((await fetch(`${baseUrl}/users/0x1234/history`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/users/${user.address}/history?limit=all`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/unknown`)).status).to.eq(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -1,8 +1,16 @@
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
 import { FhevmType } from "@fhevm/hardhat-plugin";
-import { ConfidentialUSDT, SecretRate } from "../types";
+import { ConfidentialShareVault, ConfidentialUSDT, SecretRate } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+import { SignedAction, signAction, submitArgs } from "../shared/signedActions";
+
+const REWARD_BUDGET = 1_000_000_000_000n;
+const MAX_UINT64 = 2n ** 64n - 1n;
+// Migrations each disclosed reserve total has to cover
+const MIN_RESERVE_DISCLOSURE = 5;
 
 describe("SecretRate", function () {
   let cusdt: ConfidentialUSDT;
@@ -17,13 +25,14 @@ describe("SecretRate", function () {
 
     [deployer, user] = await ethers.getSigners();
 
-    const cusdtFactory = await ethers.getContractFactory("ConfidentialUSDT");
-    cusdt = (await cusdtFactory.deploy()) as ConfidentialUSDT;
-
-    const vaultFactory = await ethers.getContractFactory("SecretRate");
-    vault = (await vaultFactory.deploy(await cusdt.getAddress())) as SecretRate;
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    vault = await deployProxy<SecretRate>("SecretRate", [await cusdt.getAddress()]);
 
-    await cusdt.connect(deployer).setMinter(await vault.getAddress());
+    const vaultAddress = await vault.getAddress();
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), vaultAddress);
+    await cusdt.connect(deployer).setMinterAllowance(vaultAddress, MAX_UINT64);
+    await cusdt.connect(deployer).topUpBudget(REWARD_BUDGET);
+    await cusdt.connect(deployer).setEpochCap(REWARD_BUDGET);
   });
 
   it("stores encrypted stake and decrypts with ACL", async function () {
@@ -48,7 +57,13 @@ describe("SecretRate", function () {
     await ethers.provider.send("evm_increaseTime", [86_400]);
     await ethers.provider.send("evm_mine", []);
 
-    const pending = await vault.pendingRewards(user.address);
+    await vault.connect(user).checkpointRewards();
+    const pending = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedPendingRewards(user.address),
+      await vault.getAddress(),
+      user
+    );
     expect(pending).to.be.greaterThan(0);
 
     await vault.connect(user).claimInterest();
@@ -64,7 +79,12 @@ describe("SecretRate", function () {
     expect(clearBalance).to.be.gte(1_000_000n);
     expect(clearBalance).to.be.lte(1_010_000n);
 
-    const pendingAfter = await vault.pendingRewards(user.address);
+    const pendingAfter = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedPendingRewards(user.address),
+      await vault.getAddress(),
+      user
+    );
     expect(pendingAfter).to.eq(0);
   });
 
@@ -88,4 +108,1072 @@ describe("SecretRate", function () {
     const contractBalance = await ethers.provider.getBalance(await vault.getAddress());
     expect(contractBalance).to.eq(0);
   });
+
+  it("stakes an encrypted amount out of a denominated deposit", async function () {
+    const vaultAddress = await vault.getAddress();
+    const amount = ethers.parseEther("0.37");
+    const encryptedInput = await fhevm.createEncryptedInput(vaultAddress, user.address).add64(amount).encrypt();
+
+    await vault
+      .connect(user)
+      .stakeEncrypted(encryptedInput.handles[0], encryptedInput.inputProof, { value: ethers.parseEther("1") });
+
+    const [encryptedAmount, depositBalance] = await vault.encryptedStakeDetails(user.address);
+    const clearStake = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedAmount, vaultAddress, user);
+    const clearBalance = await fhevm.userDecryptEuint(FhevmType.euint64, depositBalance, vaultAddress, user);
+
+    expect(clearStake).to.eq(amount);
+    expect(clearBalance).to.eq(ethers.parseEther("0.63"));
+
+    const [plainAmount] = await vault.stakeDetails(user.address);
+    expect(plainAmount).to.eq(0);
+  });
+
+  it("moves nothing when the encrypted amount exceeds the vault balance", async function () {
+    const vaultAddress = await vault.getAddress();
+    await vault.connect(user).deposit({ value: ethers.parseEther("0.5") });
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vaultAddress, user.address)
+      .add64(ethers.parseEther("0.6"))
+      .encrypt();
+    await vault.connect(user).stakeEncrypted(encryptedInput.handles[0], encryptedInput.inputProof);
+
+    const [encryptedAmount, depositBalance] = await vault.encryptedStakeDetails(user.address);
+    const clearStake = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedAmount, vaultAddress, user);
+    const clearBalance = await fhevm.userDecryptEuint(FhevmType.euint64, depositBalance, vaultAddress, user);
+
+    expect(clearStake).to.eq(0);
+    expect(clearBalance).to.eq(ethers.parseEther("0.5"));
+  });
+
+  it("emits only the encrypted minted handle on claim", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("2") });
+
+    await ethers.provider.send("evm_increaseTime", [43_200]);
+    await ethers.provider.send("evm_mine", []);
+
+    const receipt = await (await vault.connect(user).claimInterest()).wait();
+    const claimed = receipt!.logs
+      .map((log) => vault.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "InterestClaimed");
+
+    expect(claimed!.args.length).to.eq(2);
+    const clearMinted = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(user.address),
+      await cusdt.getAddress(),
+      user
+    );
+    expect(clearMinted).to.be.gte(1_000_000n);
+    expect(clearMinted).to.be.lte(1_010_000n);
+  });
+
+  it("rejects deposits that are not a multiple of the denomination", async function () {
+    await expect(
+      vault.connect(user).deposit({ value: ethers.parseEther("0.015") })
+    ).to.be.revertedWithCustomError(vault, "InvalidDenomination");
+  });
+
+  it("accrues encrypted rewards on the confidential stake", async function () {
+    const vaultAddress = await vault.getAddress();
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vaultAddress, user.address)
+      .add64(ethers.parseEther("1"))
+      .encrypt();
+    await vault
+      .connect(user)
+      .stakeEncrypted(encryptedInput.handles[0], encryptedInput.inputProof, { value: ethers.parseEther("1") });
+
+    await ethers.provider.send("evm_increaseTime", [86_400]);
+    await ethers.provider.send("evm_mine", []);
+
+    await vault.connect(user).claimInterest();
+
+    const encryptedBalance = await cusdt.confidentialBalanceOf(user.address);
+    const clearBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedBalance,
+      await cusdt.getAddress(),
+      user
+    );
+
+    expect(clearBalance).to.be.gte(1_000_000n);
+    expect(clearBalance).to.be.lte(1_010_000n);
+  });
+
+  it("withdraws a confidential position together with the idle vault balance", async function () {
+    const vaultAddress = await vault.getAddress();
+    const encryptedInput = await fhevm
+      .createEncryptedInput(vaultAddress, user.address)
+      .add64(ethers.parseEther("0.2"))
+      .encrypt();
+    await vault
+      .connect(user)
+      .stakeEncrypted(encryptedInput.handles[0], encryptedInput.inputProof, { value: ethers.parseEther("0.3") });
+
+    await vault.connect(user).requestWithdraw();
+    const handle = await vault.withdrawalHandle(user.address);
+
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    expect(clearValue).to.eq(ethers.parseEther("0.3"));
+
+    await vault.finalizeWithdraw(handle, clearValue, decryption.decryptionProof);
+
+    const contractBalance = await ethers.provider.getBalance(vaultAddress);
+    expect(contractBalance).to.eq(0);
+  });
+
+  async function requestPartial(amount: bigint) {
+    const encryptedInput = await fhevm
+      .createEncryptedInput(await vault.getAddress(), user.address)
+      .add64(amount)
+      .encrypt();
+    await vault.connect(user).requestPartialWithdraw(encryptedInput.handles[0], encryptedInput.inputProof);
+  }
+
+  async function finalizePending() {
+    const handle = await vault.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await vault.finalizeWithdraw(handle, clearValue, decryption.decryptionProof);
+    return clearValue;
+  }
+
+  async function decryptStake() {
+    const encrypted = await vault.getEncryptedStake(user.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, encrypted, await vault.getAddress(), user);
+  }
+
+  it("withdraws part of the stake and keeps the remainder encrypted", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    await requestPartial(ethers.parseEther("0.4"));
+    await expect(vault.connect(user).requestWithdraw()).to.be.revertedWithCustomError(vault, "WithdrawInProgress");
+
+    const balanceBefore = await ethers.provider.getBalance(user.address);
+    const clearValue = await finalizePending();
+    const balanceAfter = await ethers.provider.getBalance(user.address);
+
+    expect(clearValue).to.eq(ethers.parseEther("0.4"));
+    expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("0.4"));
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.6"));
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+
+    const [plainAmount] = await vault.stakeDetails(user.address);
+    expect(plainAmount).to.eq(ethers.parseEther("0.6"));
+  });
+
+  it("pays nothing when a partial withdraw exceeds the stake", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+
+    await requestPartial(ethers.parseEther("0.8"));
+    const clearValue = await finalizePending();
+
+    expect(clearValue).to.eq(0);
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.5"));
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(ethers.parseEther("0.5"));
+  });
+
+  it("supports repeated partial exits followed by a full exit", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    await requestPartial(ethers.parseEther("0.1"));
+    await expect(requestPartial(ethers.parseEther("0.1"))).to.be.revertedWithCustomError(vault, "WithdrawInProgress");
+    await finalizePending();
+
+    await requestPartial(ethers.parseEther("0.25"));
+    await finalizePending();
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.65"));
+
+    await vault.connect(user).requestWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.65"));
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(0);
+  });
+
+  it("accepts a new stake after a full withdrawal", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+    const disclosed = await vault.withdrawalHandle(user.address);
+    await finalizePending();
+
+    expect(await vault.getEncryptedStake(user.address)).to.not.eq(disclosed);
+    expect(await decryptStake()).to.eq(0n);
+
+    await vault.connect(user).stake({ value: ethers.parseEther("0.2") });
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.2"));
+  });
+
+  it("only lets the owner cancel a withdraw request after it expires", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+
+    await expect(vault.connect(user).cancelWithdraw()).to.be.revertedWithCustomError(vault, "WithdrawalNotExpired");
+    await expect(vault.connect(deployer).cancelWithdraw()).to.be.revertedWithCustomError(vault, "NoWithdrawal");
+  });
+
+  it("cancels an expired full exit and rotates the disclosed handle", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+
+    const disclosed = await vault.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([disclosed]);
+
+    await ethers.provider.send("evm_increaseTime", [Number(await vault.WITHDRAWAL_TIMEOUT())]);
+    await ethers.provider.send("evm_mine", []);
+
+    await expect(vault.connect(user).cancelWithdraw())
+      .to.emit(vault, "WithdrawalCancelled")
+      .withArgs(user.address, disclosed);
+
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+    expect(await vault.withdrawalExpiry(user.address)).to.eq(0);
+    expect(await vault.getEncryptedStake(user.address)).to.not.eq(disclosed);
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.5"));
+
+    await expect(
+      vault.finalizeWithdraw(disclosed, ethers.parseEther("0.5"), decryption.decryptionProof)
+    ).to.be.revertedWithCustomError(vault, "InvalidProof");
+
+    await vault.connect(user).stake({ value: ethers.parseEther("0.1") });
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.6"));
+  });
+
+  it("returns a cancelled partial withdraw to the stake and allows a new request", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await requestPartial(ethers.parseEther("0.3"));
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.7"));
+
+    await ethers.provider.send("evm_increaseTime", [Number(await vault.WITHDRAWAL_TIMEOUT())]);
+    await ethers.provider.send("evm_mine", []);
+    await vault.connect(user).cancelWithdraw();
+
+    expect(await decryptStake()).to.eq(ethers.parseEther("1"));
+
+    await requestPartial(ethers.parseEther("0.2"));
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.2"));
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.8"));
+  });
+
+  it("accrues each period at the reward rate that was active during it", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await expect(vault.connect(deployer).setRewardRate(3_000_000n))
+      .to.emit(vault, "RewardRateUpdated")
+      .withArgs(1_000_000n, 3_000_000n, anyValue);
+    expect(await vault.rewardRate()).to.eq(3_000_000n);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await vault.connect(user).checkpointRewards();
+
+    const pending = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedPendingRewards(user.address),
+      await vault.getAddress(),
+      user
+    );
+    expect(pending).to.eq(4_000_000n);
+  });
+
+  it("only lets the owner set a bounded reward rate", async function () {
+    await expect(vault.connect(user).setRewardRate(2_000_000n)).to.be.revertedWithCustomError(
+      vault,
+      "OwnableUnauthorizedAccount"
+    );
+
+    const maxRate = await vault.MAX_REWARD_RATE();
+    await expect(vault.connect(deployer).setRewardRate(maxRate + 1n))
+      .to.be.revertedWithCustomError(vault, "RewardRateTooHigh")
+      .withArgs(maxRate);
+  });
+
+  async function pendingRewards() {
+    await vault.connect(user).checkpointRewards();
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.getEncryptedPendingRewards(user.address),
+      await vault.getAddress(),
+      user
+    );
+  }
+
+  it("boosts accrual while locked and falls back to the base rate after the lock ends", async function () {
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start]);
+    await expect(vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("1") }))
+      .to.emit(vault, "Locked")
+      .withArgs(user.address, 1, start + 30 * 86_400);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    expect(await pendingRewards()).to.eq(1_250_000n);
+
+    // 29 of the remaining 39 days are still locked: 29 * 1.25 + 10 = 46.25 cUSDT.
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 40 * 86_400]);
+    expect(await pendingRewards()).to.eq(1_250_000n + 46_250_000n);
+
+    const [, , lockEnd, lockTier] = await vault.stakeDetails(user.address);
+    expect(lockEnd).to.eq(start + 30 * 86_400);
+    expect(lockTier).to.eq(0);
+  });
+
+  it("blocks withdrawals until the lock expires", async function () {
+    await vault.connect(user).stakeWithLock(2, { value: ethers.parseEther("1") });
+    const [, , lockEnd, lockTier] = await vault.stakeDetails(user.address);
+    expect(lockTier).to.eq(2);
+
+    await expect(vault.connect(user).requestWithdraw())
+      .to.be.revertedWithCustomError(vault, "StakeLocked")
+      .withArgs(lockEnd);
+    await expect(requestPartial(ethers.parseEther("0.1"))).to.be.revertedWithCustomError(vault, "StakeLocked");
+    await expect(vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("0.1") }))
+      .to.be.revertedWithCustomError(vault, "LockShortened")
+      .withArgs(lockEnd);
+    await expect(
+      vault.connect(user).stakeWithLock(4, { value: ethers.parseEther("0.1") })
+    ).to.be.revertedWithCustomError(vault, "InvalidLockTier");
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(lockEnd)]);
+    await vault.connect(user).requestWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("1"));
+  });
+
+  it("discloses only the penalized stake on an early exit", async function () {
+    const vaultAddress = await vault.getAddress();
+    await vault.connect(user).stakeWithLock(3, { value: ethers.parseEther("1") });
+
+    await expect(vault.connect(user).requestEarlyWithdraw()).to.emit(vault, "EarlyExitPenalized");
+    const [plainAmount, , lockEnd, lockTier] = await vault.stakeDetails(user.address);
+    expect(plainAmount).to.eq(ethers.parseEther("0.9"));
+    expect(lockEnd).to.eq((await ethers.provider.getBlock("latest"))!.timestamp);
+    expect(lockTier).to.eq(0);
+
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.9"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(ethers.parseEther("0.1"));
+
+    const forfeited = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await vault.forfeitedPenalties(),
+      vaultAddress,
+      deployer
+    );
+    expect(forfeited).to.eq(ethers.parseEther("0.1"));
+  });
+
+  it("boosts and penalizes only the stake added with the lock", async function () {
+    const vaultAddress = await vault.getAddress();
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start]);
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await vault.connect(user).stakeWithLock(3, { value: ethers.parseEther("0.1") });
+
+    // Then 1.1 ETH at the base rate plus the 2x tier-3 boost on the locked 0.1 ETH
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    expect(await pendingRewards()).to.eq(1_000_000n + 1_100_000n + 100_000n);
+
+    await vault.connect(user).requestEarlyWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("1.09"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(ethers.parseEther("0.01"));
+  });
+
+  it("pays the forfeited penalties out to the owner after a public decryption", async function () {
+    const [, , , treasury] = await ethers.getSigners();
+    await vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("1") });
+    await vault.connect(user).requestEarlyWithdraw();
+    await finalizePending();
+
+    await expect(vault.connect(user).disclosePenalties()).to.be.revertedWithCustomError(
+      vault,
+      "OwnableUnauthorizedAccount"
+    );
+    await expect(vault.connect(deployer).claimPenalties(treasury.address, 0n, "0x")).to.be.revertedWithCustomError(
+      vault,
+      "NotDisclosed"
+    );
+    await expect(vault.connect(deployer).disclosePenalties()).to.emit(vault, "PenaltiesDisclosed");
+    await expect(vault.connect(deployer).disclosePenalties()).to.be.revertedWithCustomError(
+      vault,
+      "DisclosurePending"
+    );
+
+    const handle = await vault.disclosedPenalties();
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    expect(clearValue).to.eq(ethers.parseEther("0.1"));
+
+    await expect(
+      vault.connect(deployer).claimPenalties(treasury.address, clearValue + 1n, decryption.decryptionProof)
+    ).to.be.reverted;
+    const claim = vault.connect(deployer).claimPenalties(treasury.address, clearValue, decryption.decryptionProof);
+    await expect(claim).to.emit(vault, "PenaltiesClaimed").withArgs(treasury.address, clearValue);
+    await expect(claim).to.changeEtherBalance(treasury, clearValue);
+    expect(await vault.disclosedPenalties()).to.eq(ethers.ZeroHash);
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(0);
+    await expect(vault.connect(deployer).disclosePenalties()).to.be.revertedWithCustomError(
+      vault,
+      "NothingToDisclose"
+    );
+  });
+
+  it("keeps rewards above the emission budget accrued until the budget is topped up", async function () {
+    const budgetedCusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    vault = await deployProxy<SecretRate>("SecretRate", [await budgetedCusdt.getAddress()]);
+    await budgetedCusdt.grantRole(await budgetedCusdt.MINTER_ROLE(), await vault.getAddress());
+    await budgetedCusdt.setMinterAllowance(await vault.getAddress(), MAX_UINT64);
+    await budgetedCusdt.topUpBudget(400_000n);
+    await budgetedCusdt.setEpochCap(REWARD_BUDGET);
+
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await vault.connect(user).claimInterest();
+
+    const balance = async () =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await budgetedCusdt.confidentialBalanceOf(user.address),
+        await budgetedCusdt.getAddress(),
+        user
+      );
+    expect(await balance()).to.eq(400_000n);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await vault.getEncryptedPendingRewards(user.address),
+        await vault.getAddress(),
+        user
+      )
+    ).to.eq(600_000n);
+
+    await budgetedCusdt.topUpBudget(REWARD_BUDGET);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await vault.connect(user).claimInterest();
+    expect(await balance()).to.eq(2_000_000n);
+  });
+
+  it("lets the guardian pause deposits and claims independently", async function () {
+    const [, , guardian] = await ethers.getSigners();
+    const depositsScope = await vault.PAUSE_DEPOSITS();
+    const claimsScope = await vault.PAUSE_CLAIMS();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    await expect(vault.connect(guardian).pause(depositsScope))
+      .to.be.revertedWithCustomError(vault, "NotGuardian")
+      .withArgs(guardian.address);
+    await vault.connect(deployer).setGuardian(guardian.address);
+
+    await expect(vault.connect(guardian).pause(depositsScope))
+      .to.emit(vault, "Paused")
+      .withArgs(guardian.address, depositsScope);
+    await expect(vault.connect(user).stake({ value: ethers.parseEther("1") }))
+      .to.be.revertedWithCustomError(vault, "VaultPaused")
+      .withArgs(depositsScope);
+    await expect(
+      vault.connect(user).deposit({ value: ethers.parseEther("1") })
+    ).to.be.revertedWithCustomError(vault, "VaultPaused");
+    await vault.connect(user).claimInterest();
+
+    await vault.connect(guardian).pause(claimsScope);
+    await expect(vault.connect(user).claimInterest())
+      .to.be.revertedWithCustomError(vault, "VaultPaused")
+      .withArgs(claimsScope);
+    await expect(vault.connect(guardian).unpause(depositsScope)).to.be.revertedWithCustomError(
+      vault,
+      "OwnableUnauthorizedAccount"
+    );
+
+    await expect(vault.connect(deployer).unpause(depositsScope))
+      .to.emit(vault, "Unpaused")
+      .withArgs(deployer.address, depositsScope);
+    expect(await vault.pausedScopes()).to.eq(claimsScope);
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await expect(vault.connect(user).claimInterest()).to.be.revertedWithCustomError(vault, "VaultPaused");
+  });
+
+  it("keeps the emergency exit open while withdrawals are paused", async function () {
+    const vaultAddress = await vault.getAddress();
+    const withdrawalsScope = await vault.PAUSE_WITHDRAWALS();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await vault.connect(user).requestWithdraw();
+
+    await vault.connect(deployer).pause(withdrawalsScope);
+    await expect(finalizePending()).to.be.revertedWithCustomError(vault, "VaultPaused").withArgs(withdrawalsScope);
+    await expect(vault.connect(user).requestWithdraw()).to.be.revertedWithCustomError(vault, "VaultPaused");
+
+    const handle = await vault.withdrawalHandle(user.address);
+    await expect(vault.connect(user).emergencyWithdraw())
+      .to.emit(vault, "EmergencyWithdrawalRequested")
+      .withArgs(user.address, handle);
+    expect(await finalizePending()).to.eq(ethers.parseEther("1"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(0);
+
+    await vault.connect(deployer).unpause(withdrawalsScope);
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(deployer).pause(withdrawalsScope);
+    await vault.connect(user).emergencyWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.5"));
+  });
+
+  it("moves a pending partial withdraw to the emergency path while withdrawals are paused", async function () {
+    const vaultAddress = await vault.getAddress();
+    const withdrawalsScope = await vault.PAUSE_WITHDRAWALS();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await requestPartial(ethers.parseEther("0.3"));
+    const partial = await vault.withdrawalHandle(user.address);
+
+    await vault.connect(deployer).pause(withdrawalsScope);
+    await expect(finalizePending()).to.be.revertedWithCustomError(vault, "VaultPaused").withArgs(withdrawalsScope);
+
+    await expect(vault.connect(user).emergencyWithdraw())
+      .to.emit(vault, "EmergencyWithdrawalRequested")
+      .withArgs(user.address, partial);
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.3"));
+    expect(await decryptStake()).to.eq(ethers.parseEther("0.7"));
+
+    await vault.connect(user).emergencyWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("0.7"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(0);
+  });
+
+  it("keeps encrypted handles and their ACLs across an upgrade", async function () {
+    const vaultAddress = await vault.getAddress();
+    await vault.connect(user).deposit({ value: ethers.parseEther("1.5") });
+    const input = await fhevm.createEncryptedInput(vaultAddress, user.address).add64(ethers.parseEther("1")).encrypt();
+    await vault.connect(user).stakeEncrypted(input.handles[0], input.inputProof);
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await vault.connect(user).checkpointRewards();
+
+    const [stakeHandle, depositHandle, rewardHandle] = await vault.encryptedStakeDetails(user.address);
+
+    const implementation = await ethers.deployContract("SecretRateUpgradeMock");
+    await expect(vault.connect(deployer).upgradeToAndCall(await implementation.getAddress(), "0x"))
+      .to.emit(vault, "Upgraded")
+      .withArgs(await implementation.getAddress());
+    const upgraded = await ethers.getContractAt("SecretRateUpgradeMock", vaultAddress);
+    expect(await upgraded.upgradeVersion()).to.eq(2);
+
+    const [upgradedStake, upgradedDeposit, upgradedReward] = await upgraded.encryptedStakeDetails(user.address);
+    expect([upgradedStake, upgradedDeposit, upgradedReward]).to.deep.eq([stakeHandle, depositHandle, rewardHandle]);
+    expect(await upgraded.cusdt()).to.eq(await cusdt.getAddress());
+    expect(await upgraded.owner()).to.eq(deployer.address);
+    expect(await decryptStake()).to.eq(ethers.parseEther("1"));
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, depositHandle, vaultAddress, user)).to.eq(
+      ethers.parseEther("0.5")
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, rewardHandle, vaultAddress, user)).to.eq(1_000_000n);
+
+    // The proxy keeps its own ACL grants, so the new implementation can still compute on the stored handles.
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await upgraded.connect(user).claimInterest();
+    const minted = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(user.address),
+      await cusdt.getAddress(),
+      user
+    );
+    expect(minted).to.eq(2_000_000n);
+
+    await upgraded.connect(user).requestWithdraw();
+    expect(await finalizePending()).to.eq(ethers.parseEther("1.5"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(0);
+  });
+
+  it("only lets the owner upgrade and never re-initializes", async function () {
+    const cusdtAddress = await cusdt.getAddress();
+    const implementation = await ethers.deployContract("SecretRateUpgradeMock");
+    const implementationAddress = await implementation.getAddress();
+
+    await expect(vault.connect(user).upgradeToAndCall(implementationAddress, "0x"))
+      .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount")
+      .withArgs(user.address);
+    await expect(vault.connect(user).initialize(cusdtAddress)).to.be.revertedWithCustomError(
+      vault,
+      "InvalidInitialization"
+    );
+    await expect(implementation.connect(user).initialize(cusdtAddress)).to.be.revertedWithCustomError(
+      implementation,
+      "InvalidInitialization"
+    );
+  });
+
+  async function deploySuccessor() {
+    const successor = await deployProxy<SecretRate>("SecretRate", [await cusdt.getAddress()]);
+    const successorAddress = await successor.getAddress();
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), successorAddress);
+    await cusdt.connect(deployer).setMinterAllowance(successorAddress, MAX_UINT64);
+    await vault.connect(deployer).setSuccessor(successorAddress);
+    await successor.connect(deployer).setPredecessor(await vault.getAddress());
+    return successor;
+  }
+
+  // Migrates enough other positions for the reserves to be disclosable together with the one under test
+  async function migrateOthers(amount: bigint) {
+    const others = (await ethers.getSigners()).slice(10, 10 + MIN_RESERVE_DISCLOSURE - 1);
+    for (const other of others) {
+      await vault.connect(other).stake({ value: amount });
+      await vault.connect(other).migratePosition();
+    }
+  }
+
+  async function settleReserves(successorAddress: string) {
+    await vault.connect(deployer).discloseReserves(successorAddress);
+    const handle = await vault.disclosedReserves(successorAddress);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await vault.settleReserves(successorAddress, clearValue, decryption.decryptionProof);
+    return clearValue;
+  }
+
+  it("migrates an encrypted position to the successor without disclosing it", async function () {
+    const vaultAddress = await vault.getAddress();
+    const successor = await deploySuccessor();
+    const successorAddress = await successor.getAddress();
+
+    await vault.connect(user).deposit({ value: ethers.parseEther("1") });
+    const input = await fhevm.createEncryptedInput(vaultAddress, user.address).add64(ethers.parseEther("0.6")).encrypt();
+    await vault.connect(user).stakeEncryptedWithLock(input.handles[0], input.inputProof, 1);
+    const [, , lockEnd] = await vault.stakeDetails(user.address);
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await expect(vault.connect(user).migratePosition())
+      .to.emit(vault, "PositionMigrated")
+      .withArgs(user.address, successorAddress, anyValue)
+      .and.to.emit(successor, "PositionReceived")
+      .withArgs(user.address, vaultAddress, anyValue);
+
+    expect(await vault.stakeDetails(user.address)).to.deep.eq([0n, 0n, 0n, 0n]);
+    expect(await vault.getEncryptedStake(user.address)).to.eq(ethers.ZeroHash);
+    expect(await successor.stakeDetails(user.address)).to.deep.eq([0n, BigInt(start + 86_400), lockEnd, 1n]);
+
+    const [stake, , rewards] = await successor.encryptedStakeDetails(user.address);
+    await expect(fhevm.publicDecrypt([stake])).to.be.rejected;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, stake, successorAddress, user)).to.eq(ethers.parseEther("1"));
+    // 0.6 ETH at the 1.25x tier-1 boost for one day
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, rewards, successorAddress, user)).to.eq(750_000n);
+    await expect(successor.connect(user).requestWithdraw())
+      .to.be.revertedWithCustomError(successor, "StakeLocked")
+      .withArgs(lockEnd);
+
+    // The folded 0.4 ETH earns the base rate only: 0.75 + 1 + 0.6 * 0.25 cUSDT
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await successor.connect(user).claimInterest();
+    const minted = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(user.address),
+      await cusdt.getAddress(),
+      user
+    );
+    expect(minted).to.eq(1_900_000n);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(lockEnd)]);
+    await successor.connect(user).requestWithdraw();
+    const handle = await successor.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await expect(successor.finalizeWithdraw(handle, clearValue, decryption.decryptionProof))
+      .to.be.revertedWithCustomError(vault, "InsufficientReserves")
+      .withArgs(0n);
+
+    await migrateOthers(ethers.parseEther("1"));
+    expect(await settleReserves(successorAddress)).to.eq(ethers.parseEther("5"));
+    await expect(successor.finalizeWithdraw(handle, clearValue, decryption.decryptionProof))
+      .to.emit(vault, "ReservesReleased")
+      .withArgs(successorAddress, ethers.parseEther("1"));
+    expect(await ethers.provider.getBalance(vaultAddress)).to.eq(ethers.parseEther("4"));
+    expect(await ethers.provider.getBalance(successorAddress)).to.eq(0);
+  });
+
+  it("only migrates between approved vaults", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await expect(vault.connect(user).migratePosition()).to.be.revertedWithCustomError(vault, "NoSuccessor");
+
+    const successor = await deploySuccessor();
+    await expect(vault.connect(user).releaseReserves(1n))
+      .to.be.revertedWithCustomError(vault, "InsufficientReserves")
+      .withArgs(0n);
+    await expect(
+      successor.connect(user).acceptMigratedPosition(user.address, {
+        encryptedAmount: await vault.getEncryptedStake(user.address),
+        accruedRewards: ethers.ZeroHash,
+        plainAmount: ethers.parseEther("1"),
+        lastAccrual: 0n,
+        lockEnd: 0n,
+        lockTier: 0n,
+        confidential: false,
+        lockedAmount: ethers.ZeroHash
+      })
+    )
+      .to.be.revertedWithCustomError(successor, "NotPredecessor")
+      .withArgs(user.address);
+    await expect(user.sendTransaction({ to: await successor.getAddress(), value: 1n }))
+      .to.be.revertedWithCustomError(successor, "NotPredecessor")
+      .withArgs(user.address);
+
+    await successor.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await successor.connect(user).requestWithdraw();
+    await expect(vault.connect(user).migratePosition()).to.be.revertedWithCustomError(successor, "WithdrawInProgress");
+
+    await vault.connect(user).requestWithdraw();
+    await expect(vault.connect(user).migratePosition()).to.be.revertedWithCustomError(vault, "WithdrawInProgress");
+  });
+
+  it("merges a migrated position into a stake someone else opened on the successor", async function () {
+    const [, , griefer] = await ethers.getSigners();
+    const successor = await deploySuccessor();
+    const successorAddress = await successor.getAddress();
+    await vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("1") });
+    const [, , lockEnd] = await vault.stakeDetails(user.address);
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    await successor.connect(griefer).stakeFor(user.address, { value: 1n });
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await expect(vault.connect(user).migratePosition()).to.emit(successor, "PositionReceived");
+
+    const [plainAmount, , mergedLockEnd, lockTier] = await successor.stakeDetails(user.address);
+    expect([plainAmount, mergedLockEnd, lockTier]).to.deep.eq([ethers.parseEther("1") + 1n, lockEnd, 1n]);
+    const [stake, , rewards] = await successor.encryptedStakeDetails(user.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, stake, successorAddress, user)).to.eq(
+      ethers.parseEther("1") + 1n
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, rewards, successorAddress, user)).to.eq(1_250_000n);
+
+    // Only the migrated ETH stays boosted: 1 * 1.25 cUSDT more, the gifted wei earns nothing measurable
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await successor.connect(user).checkpointRewards();
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await successor.getEncryptedPendingRewards(user.address),
+        successorAddress,
+        user
+      )
+    ).to.eq(2_500_000n);
+  });
+
+  it("releases only the settled migrated principal, even after migrations are stopped", async function () {
+    const [, , other] = await ethers.getSigners();
+    const successor = await deploySuccessor();
+    const successorAddress = await successor.getAddress();
+    await vault.connect(other).stake({ value: ethers.parseEther("2") });
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).migratePosition();
+
+    await expect(vault.connect(user).discloseReserves(successorAddress)).to.be.revertedWithCustomError(
+      vault,
+      "OwnableUnauthorizedAccount"
+    );
+    // A total covering the single migration would disclose that position
+    await expect(vault.connect(deployer).discloseReserves(successorAddress))
+      .to.be.revertedWithCustomError(vault, "TooFewMigrations")
+      .withArgs(1n);
+    await migrateOthers(ethers.parseEther("0.01"));
+
+    await expect(vault.settleReserves(successorAddress, 0n, "0x")).to.be.revertedWithCustomError(vault, "NotDisclosed");
+    await vault.connect(deployer).discloseReserves(successorAddress);
+    await expect(vault.connect(deployer).discloseReserves(successorAddress)).to.be.revertedWithCustomError(
+      vault,
+      "DisclosurePending"
+    );
+    const handle = await vault.disclosedReserves(successorAddress);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    await expect(
+      vault.settleReserves(successorAddress, ethers.parseEther("2.54"), decryption.decryptionProof)
+    ).to.be.reverted;
+    await expect(vault.settleReserves(successorAddress, ethers.parseEther("0.54"), decryption.decryptionProof))
+      .to.emit(vault, "ReservesSettled")
+      .withArgs(successorAddress, ethers.parseEther("0.54"));
+    expect(await vault.reserveAllowance(successorAddress)).to.eq(ethers.parseEther("0.54"));
+    await expect(vault.connect(deployer).discloseReserves(successorAddress))
+      .to.be.revertedWithCustomError(vault, "TooFewMigrations")
+      .withArgs(0n);
+
+    await vault.connect(deployer).setSuccessor(ethers.ZeroAddress);
+    await expect(vault.connect(user).migratePosition()).to.be.revertedWithCustomError(vault, "NoSuccessor");
+
+    // The successor pays the new stake itself and draws the 0.5 ETH it is short, leaving the other staker's ETH
+    await successor.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await successor.connect(user).requestWithdraw();
+    const exit = await successor.withdrawalHandle(user.address);
+    const exitDecryption = await fhevm.publicDecrypt([exit]);
+    await expect(
+      successor.finalizeWithdraw(exit, ethers.parseEther("1"), exitDecryption.decryptionProof)
+    ).to.changeEtherBalance(user, ethers.parseEther("1"));
+    expect(await vault.reserveAllowance(successorAddress)).to.eq(ethers.parseEther("0.04"));
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(ethers.parseEther("2.04"));
+  });
+
+  it("sweeps opted-in yield into cUSDT shares on behalf of the user", async function () {
+    const [, , keeper] = await ethers.getSigners();
+    const shareVault = await deployProxy<ConfidentialShareVault>("ConfidentialShareVault", [await cusdt.getAddress()]);
+    const shareVaultAddress = await shareVault.getAddress();
+
+    await expect(vault.connect(user).setAutoSweep(true)).to.be.revertedWithCustomError(vault, "NoShareVault");
+    await vault.connect(deployer).setShareVault(shareVaultAddress);
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    await expect(vault.connect(keeper).sweepYield(user.address))
+      .to.be.revertedWithCustomError(vault, "AutoSweepDisabled")
+      .withArgs(user.address);
+    await expect(vault.connect(user).setAutoSweep(true))
+      .to.emit(vault, "AutoSweepUpdated")
+      .withArgs(user.address, true);
+    expect(await vault.autoSweepEnabled(user.address)).to.eq(true);
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 86_400]);
+    await expect(vault.connect(keeper).sweepYield(user.address))
+      .to.emit(vault, "YieldSwept")
+      .withArgs(user.address, anyValue)
+      .and.to.emit(shareVault, "Deposited")
+      .withArgs(vault.getAddress(), user.address, anyValue);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 2 * 86_400]);
+    await vault.connect(user).claimInterest();
+
+    const decryptShares = async () =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await shareVault.confidentialBalanceOf(user.address),
+        shareVaultAddress,
+        user
+      );
+    const decryptCusdt = async () =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await cusdt.confidentialBalanceOf(user.address),
+        await cusdt.getAddress(),
+        user
+      );
+    expect(await decryptShares()).to.eq(2_000_000n);
+    expect(await cusdt.confidentialBalanceOf(user.address)).to.eq(ethers.ZeroHash);
+
+    const input = await fhevm.createEncryptedInput(shareVaultAddress, user.address).add64(500_000n).encrypt();
+    await shareVault.connect(user)["redeem(bytes32,bytes)"](input.handles[0], input.inputProof);
+    expect(await decryptShares()).to.eq(1_500_000n);
+    expect(await decryptCusdt()).to.eq(500_000n);
+
+    await vault.connect(user).setAutoSweep(false);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + 3 * 86_400]);
+    await vault.connect(user).claimInterest();
+    expect(await decryptShares()).to.eq(1_500_000n);
+    expect(await decryptCusdt()).to.eq(1_500_000n);
+  });
+
+  it("lets an approved operator claim and start withdrawals that pay the staker", async function () {
+    const [, , operator] = await ethers.getSigners();
+    const vaultAddress = await vault.getAddress();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    await expect(vault.connect(operator)["claimInterestFor(address)"](user.address))
+      .to.be.revertedWithCustomError(vault, "NotOperator")
+      .withArgs(user.address, operator.address);
+
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await expect(vault.connect(user).setOperator(operator.address, now + 86_400))
+      .to.emit(vault, "OperatorSet")
+      .withArgs(user.address, operator.address, now + 86_400);
+    expect(await vault.isOperator(user.address, operator.address)).to.eq(true);
+    expect(await vault.isOperator(operator.address, user.address)).to.eq(false);
+
+    await ethers.provider.send("evm_increaseTime", [3_600]);
+    await expect(vault.connect(operator)["claimInterestFor(address)"](user.address)).to.emit(vault, "InterestClaimed");
+    const claimed = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(user.address),
+      await cusdt.getAddress(),
+      user
+    );
+    expect(claimed).to.be.greaterThan(0n);
+    expect(await cusdt.confidentialBalanceOf(operator.address)).to.eq(ethers.ZeroHash);
+
+    const input = await fhevm
+      .createEncryptedInput(vaultAddress, operator.address)
+      .add64(ethers.parseEther("0.4"))
+      .encrypt();
+    await vault.connect(operator).requestPartialWithdrawFor(user.address, input.handles[0], input.inputProof);
+    let handle = await vault.withdrawalHandle(user.address);
+    let decryption = await fhevm.publicDecrypt([handle]);
+    let clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    expect(clearValue).to.eq(ethers.parseEther("0.4"));
+    await expect(
+      vault.connect(operator).finalizeWithdraw(handle, clearValue, decryption.decryptionProof)
+    ).to.changeEtherBalances([user, operator], [ethers.parseEther("0.4"), 0n]);
+
+    await vault.connect(operator)["requestWithdrawFor(address)"](user.address);
+    handle = await vault.withdrawalHandle(user.address);
+    decryption = await fhevm.publicDecrypt([handle]);
+    clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await expect(
+      vault.connect(operator).finalizeWithdraw(handle, clearValue, decryption.decryptionProof)
+    ).to.changeEtherBalances([user, operator], [ethers.parseEther("0.6"), 0n]);
+  });
+
+  it("rejects revoked and expired operators and keeps locks in force for them", async function () {
+    const [, , operator] = await ethers.getSigners();
+    await vault.connect(user).stakeWithLock(1, { value: ethers.parseEther("1") });
+
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await vault.connect(user).setOperator(operator.address, now + 3_600);
+    const [, , lockEnd] = await vault.stakeDetails(user.address);
+    await expect(vault.connect(operator)["requestWithdrawFor(address)"](user.address))
+      .to.be.revertedWithCustomError(vault, "StakeLocked")
+      .withArgs(lockEnd);
+
+    await ethers.provider.send("evm_increaseTime", [3_601]);
+    await ethers.provider.send("evm_mine", []);
+    expect(await vault.isOperator(user.address, operator.address)).to.eq(false);
+    await expect(vault.connect(operator)["claimInterestFor(address)"](user.address))
+      .to.be.revertedWithCustomError(vault, "NotOperator")
+      .withArgs(user.address, operator.address);
+
+    await vault.connect(user).setOperator(operator.address, 2n ** 48n - 1n);
+    await vault.connect(operator)["claimInterestFor(address)"](user.address);
+    await expect(vault.connect(user).setOperator(operator.address, 0))
+      .to.emit(vault, "OperatorSet")
+      .withArgs(user.address, operator.address, 0);
+    await expect(vault.connect(operator)["claimInterestFor(address)"](user.address))
+      .to.be.revertedWithCustomError(vault, "NotOperator")
+      .withArgs(user.address, operator.address);
+    await expect(vault.connect(operator)["requestWithdrawFor(address)"](user.address))
+      .to.be.revertedWithCustomError(vault, "NotOperator")
+      .withArgs(user.address, operator.address);
+  });
+
+  async function signFor(signer: HardhatEthersSigner, action: SignedAction, deadline: number) {
+    return signAction(signer, {
+      action,
+      vault: await vault.getAddress(),
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      nonce: await vault.nonces(user.address),
+      deadline: BigInt(deadline)
+    });
+  }
+
+  it("relays signed claims and withdrawals that pay the staker", async function () {
+    const [, , relayer] = await ethers.getSigners();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    await ethers.provider.send("evm_increaseTime", [3_600]);
+    await ethers.provider.send("evm_mine", []);
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    const claim = await signFor(user, "ClaimInterest", now + 600);
+    await expect(vault.connect(relayer)["claimInterestFor(address,uint256,bytes)"](...submitArgs(claim)))
+      .to.emit(vault, "InterestClaimed")
+      .withArgs(user.address, anyValue);
+    expect(await vault.nonces(user.address)).to.eq(1n);
+    const claimed = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await cusdt.confidentialBalanceOf(user.address),
+      await cusdt.getAddress(),
+      user
+    );
+    expect(claimed).to.be.greaterThan(0n);
+
+    const withdraw = await signFor(user, "RequestWithdraw", now + 600);
+    await vault.connect(relayer)["requestWithdrawFor(address,uint256,bytes)"](...submitArgs(withdraw));
+    const handle = await vault.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const clearValue = BigInt(decryption.clearValues[handle as `0x${string}`]);
+    await expect(
+      vault.connect(relayer).finalizeWithdraw(handle, clearValue, decryption.decryptionProof)
+    ).to.changeEtherBalances([user, relayer], [ethers.parseEther("1"), 0n]);
+  });
+
+  it("rejects replayed, expired and foreign signatures", async function () {
+    const [, , relayer] = await ethers.getSigners();
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const claimFor = vault.connect(relayer)["claimInterestFor(address,uint256,bytes)"];
+
+    const claim = await signFor(user, "ClaimInterest", now + 600);
+    await claimFor(...submitArgs(claim));
+    await expect(claimFor(...submitArgs(claim))).to.be.revertedWithCustomError(vault, "InvalidSignature");
+
+    const expired = await signFor(user, "ClaimInterest", now - 1);
+    await expect(claimFor(...submitArgs(expired)))
+      .to.be.revertedWithCustomError(vault, "SignatureExpired")
+      .withArgs(now - 1);
+
+    const foreign = await signFor(relayer, "ClaimInterest", now + 600);
+    await expect(claimFor(user.address, foreign.deadline, foreign.signature)).to.be.revertedWithCustomError(
+      vault,
+      "InvalidSignature"
+    );
+
+    const wrongAction = await signFor(user, "ClaimInterest", now + 600);
+    await expect(
+      vault.connect(relayer)["requestWithdrawFor(address,uint256,bytes)"](...submitArgs(wrongAction))
+    ).to.be.revertedWithCustomError(vault, "InvalidSignature");
+    expect(await vault.nonces(user.address)).to.eq(1n);
+  });
+
+  it("stakes a gift into the beneficiary position only the beneficiary can decrypt", async function () {
+    const vaultAddress = await vault.getAddress();
+    const value = ethers.parseEther("0.5");
+
+    await expect(vault.connect(deployer).stakeFor(user.address, { value }))
+      .to.emit(vault, "StakedFor")
+      .withArgs(deployer.address, user.address, anyValue);
+
+    const encrypted = await vault.getEncryptedStake(user.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, encrypted, vaultAddress, user)).to.eq(value);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, encrypted, vaultAddress, deployer)).to.be.rejected;
+
+    const [plainAmount] = await vault.stakeDetails(user.address);
+    expect(plainAmount).to.eq(value);
+    expect(await vault.getEncryptedStake(deployer.address)).to.eq(ethers.ZeroHash);
+  });
+
+  it("stakes encrypted payroll amounts for many beneficiaries out of the funder balance", async function () {
+    const [, , alice, bob] = await ethers.getSigners();
+    const vaultAddress = await vault.getAddress();
+    const beneficiaries = [user.address, alice.address, bob.address];
+
+    const input = await fhevm
+      .createEncryptedInput(vaultAddress, deployer.address)
+      .add64(ethers.parseEther("0.3"))
+      .add64(ethers.parseEther("0.5"))
+      .add64(ethers.parseEther("0.4"))
+      .encrypt();
+    const tx = vault
+      .connect(deployer)
+      .stakeForMany(beneficiaries, input.handles, input.inputProof, { value: ethers.parseEther("1") });
+    await expect(tx).to.emit(vault, "StakedFor").withArgs(deployer.address, bob.address, anyValue);
+    await expect(tx).not.to.emit(vault, "Staked");
+
+    const stakeOf = async (signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, await vault.getEncryptedStake(signer.address), vaultAddress, signer);
+    expect(await stakeOf(user)).to.eq(ethers.parseEther("0.3"));
+    expect(await stakeOf(alice)).to.eq(ethers.parseEther("0.5"));
+    // 0.4 ETH is more than the 0.2 ETH left, so bob's amount moved nothing
+    expect(await stakeOf(bob)).to.eq(0n);
+    await expect(
+      fhevm.userDecryptEuint(FhevmType.euint64, await vault.getEncryptedStake(alice.address), vaultAddress, deployer)
+    ).to.be.rejected;
+
+    const [, depositBalance] = await vault.encryptedStakeDetails(deployer.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, depositBalance, vaultAddress, deployer)).to.eq(
+      ethers.parseEther("0.2")
+    );
+    const [plainAmount] = await vault.stakeDetails(alice.address);
+    expect(plainAmount).to.eq(0n);
+
+    await expect(
+      vault.connect(deployer).stakeForMany(beneficiaries, [input.handles[0]], input.inputProof)
+    ).to.be.revertedWithCustomError(vault, "BatchLengthMismatch");
+
+    await vault.connect(alice).requestWithdraw();
+    const retry = await fhevm
+      .createEncryptedInput(vaultAddress, deployer.address)
+      .add64(ethers.parseEther("0.1"))
+      .encrypt();
+    await expect(
+      vault.connect(deployer).stakeForMany([alice.address], retry.handles, retry.inputProof)
+    ).to.be.revertedWithCustomError(vault, "WithdrawInProgress");
+  });
 });
+
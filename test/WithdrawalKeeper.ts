@@ -0,0 +1,180 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { ethers, fhevm } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createWithdrawalKeeper, PublicDecrypt } from "../keeper/withdrawalKeeper";
+import { ConfidentialUSDT, SecretRate } from "../types";
+import { deployProxy } from "./helpers/deployProxy";
+
+describe("WithdrawalKeeper", function () {
+  let cusdt: ConfidentialUSDT;
+  let vault: SecretRate;
+  let deployer: HardhatEthersSigner;
+  let keeperSigner: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let stateDir: string;
+  let stateFile: string;
+  let fromBlock: number;
+
+  const publicDecrypt: PublicDecrypt = (handles) => fhevm.publicDecrypt(handles);
+
+  const newKeeper = (overrides: Partial<Parameters<typeof createWithdrawalKeeper>[0]> = {}) =>
+    createWithdrawalKeeper({
+      vault: vault.connect(keeperSigner),
+      publicDecrypt,
+      stateFile,
+      fromBlock,
+      log: () => {},
+      ...overrides,
+    });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    [deployer, keeperSigner, user] = await ethers.getSigners();
+
+    cusdt = await deployProxy<ConfidentialUSDT>("ConfidentialUSDT");
+    vault = await deployProxy<SecretRate>("SecretRate", [await cusdt.getAddress()]);
+
+    await cusdt.connect(deployer).grantRole(await cusdt.MINTER_ROLE(), await vault.getAddress());
+
+    fromBlock = await ethers.provider.getBlockNumber();
+    stateDir = mkdtempSync(join(tmpdir(), "secret-rate-keeper-"));
+    stateFile = join(stateDir, "state.json");
+  });
+
+  afterEach(function () {
+    if (stateDir) {
+      rmSync(stateDir, { recursive: true, force: true });
+    }
+  });
+
+  it("finalizes a requested withdrawal and persists the cursor", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+
+    const balanceBefore = await ethers.provider.getBalance(user.address);
+    await newKeeper().poll();
+    const balanceAfter = await ethers.provider.getBalance(user.address);
+
+    expect(balanceAfter - balanceBefore).to.eq(ethers.parseEther("0.5"));
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+
+    const state = JSON.parse(readFileSync(stateFile, "utf8"));
+    expect(state.lastBlock).to.eq((await ethers.provider.getBlockNumber()) - 1);
+    expect(state.pending).to.have.length(0);
+  });
+
+  it("finalizes partial withdrawals", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("1") });
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(await vault.getAddress(), user.address)
+      .add64(ethers.parseEther("0.3"))
+      .encrypt();
+    await vault.connect(user).requestPartialWithdraw(encryptedInput.handles[0], encryptedInput.inputProof);
+
+    await newKeeper().poll();
+
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(ethers.parseEther("0.7"));
+  });
+
+  it("resumes from the persisted cursor after a restart", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+    await newKeeper().poll();
+
+    await vault.connect(user).stake({ value: ethers.parseEther("0.2") });
+    await vault.connect(user).requestWithdraw();
+
+    let decryptCalls = 0;
+    const restarted = newKeeper({
+      publicDecrypt: (handles) => {
+        decryptCalls += handles.length;
+        return publicDecrypt(handles);
+      },
+    });
+    await restarted.poll();
+
+    expect(decryptCalls).to.eq(1);
+    expect(await ethers.provider.getBalance(await vault.getAddress())).to.eq(0);
+  });
+
+  it("retries with backoff when the relayer fails", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+
+    let clock = 1_000;
+    let failures = 1;
+    const keeper = newKeeper({
+      now: () => clock,
+      baseDelayMs: 100,
+      publicDecrypt: (handles) => {
+        if (failures > 0) {
+          failures -= 1;
+          return Promise.reject(new Error("relayer unavailable"));
+        }
+        return publicDecrypt(handles);
+      },
+    });
+
+    await keeper.poll();
+    expect(keeper.state.pending).to.have.length(1);
+    expect(keeper.state.pending[0].attempts).to.eq(1);
+    expect(keeper.state.pending[0].nextAttemptAt).to.eq(1_100);
+
+    await keeper.poll();
+    expect(keeper.state.pending[0].attempts).to.eq(1);
+
+    clock = 1_100;
+    await keeper.poll();
+    expect(keeper.state.pending).to.have.length(0);
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+  });
+
+  it("keeps retrying through a withdrawals pause with a capped backoff", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+    await vault.connect(deployer).pause(await vault.PAUSE_WITHDRAWALS());
+
+    let clock = 0;
+    const keeper = newKeeper({ now: () => clock, baseDelayMs: 100, maxDelayMs: 300 });
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      await keeper.poll();
+      clock = keeper.state.pending[0].nextAttemptAt;
+    }
+    expect(keeper.state.pending).to.have.length(1);
+    expect(keeper.state.pending[0].attempts).to.eq(6);
+    expect(keeper.state.pending[0].lastError).to.contain("VaultPaused");
+    // 100, 200, then capped at 300 ms
+    expect(clock).to.eq(100 + 200 + 4 * 300);
+
+    await vault.connect(deployer).unpause(await vault.PAUSE_WITHDRAWALS());
+    await keeper.poll();
+    expect(keeper.state.pending).to.have.length(0);
+    expect(await vault.withdrawalHandle(user.address)).to.eq(ethers.ZeroHash);
+  });
+
+  it("skips withdrawals that were finalized elsewhere", async function () {
+    await vault.connect(user).stake({ value: ethers.parseEther("0.5") });
+    await vault.connect(user).requestWithdraw();
+
+    const handle = await vault.withdrawalHandle(user.address);
+    const decryption = await fhevm.publicDecrypt([handle]);
+    await vault.finalizeWithdraw(
+      handle,
+      BigInt(decryption.clearValues[handle as `0x${string}`]),
+      decryption.decryptionProof,
+    );
+
+    const keeper = newKeeper({ publicDecrypt: () => Promise.reject(new Error("should not decrypt")) });
+    await keeper.poll();
+
+    expect(keeper.state.pending).to.have.length(0);
+  });
+});
@@ -0,0 +1,16 @@
+import { BaseContract } from "ethers";
+import { ethers } from "hardhat";
+import ERC1967Proxy from "hardhat-deploy/extendedArtifacts/ERC1967Proxy.json";
+
+/**
+ * Deploys `contractName` behind the same ERC-1967 proxy `deploy/deploy.ts` uses and initializes it with `args`.
+ */
+export async function deployProxy<T extends BaseContract>(contractName: string, args: unknown[] = []): Promise<T> {
+  const implementation = await ethers.deployContract(contractName);
+  const initData = implementation.interface.encodeFunctionData("initialize", args);
+
+  const proxyFactory = await ethers.getContractFactory(ERC1967Proxy.abi, ERC1967Proxy.bytecode);
+  const proxy = await proxyFactory.deploy(await implementation.getAddress(), initData);
+
+  return (await ethers.getContractAt(contractName, await proxy.getAddress())) as unknown as T;
+}